@@ -0,0 +1,11 @@
+import { scanAllFeatures, checkRegistry, formatIssue } from './manifest'
+
+// Checks every feature for route conflicts and schema mistakes.
+// Exits 1 when any check fails with an error; warnings alone pass.
+const issues = checkRegistry(await scanAllFeatures(import.meta.dir))
+for (const issue of issues) console.log(formatIssue(issue))
+
+const errors = issues.filter((issue) => issue.severity === 'error').length
+const warnings = issues.length - errors
+console.log(issues.length === 0 ? '✓ All features pass' : `${errors} error(s), ${warnings} warning(s)`)
+if (errors > 0) process.exit(1)
@@ -16,6 +16,10 @@ export default {
   bundleCss: false,
   postBuild: 'bunx @tailwindcss/cli -i frontend/styles.css -o dist/index.css --minify',
 
+  // Typed API client generated from the features in dev mode. Set to false to
+  // turn it off. Regenerate by hand with `bun run generate:client`.
+  apiClient: 'frontend/generated/api.ts',
+
   // Additional directories to watch in dev mode. Changes in these directories
   // trigger a full rebuild (Bun.build + postBuild). Paths relative to project root.
   // watchDirs: ['content/'],
@@ -11,6 +11,82 @@ export default {
   includeMetaInResponses: true,
   includeDurationInMeta: true,
 
+  // Input keys a feature doesn't declare: 'strip' drops them, 'reject' answers
+  // 422 with an unknown_field error per key, 'allow' passes them to the handler.
+  // Features can override this with their own `unknownFields`.
+  unknownFields: 'strip' as 'strip' | 'reject' | 'allow',
+
+  // Largest accepted JSON body in bytes; larger ones answer 413. Features can
+  // raise or lower it with their own `maxBodySize`. Also limits POST /__rpc.
+  maxBodySize: 1024 * 1024,
+
+  // Serve features as MCP tools over HTTP at POST /__mcp. Tool calls use the
+  // same auth and rate limits as HTTP calls. The stdio transport (bun run mcp)
+  // works regardless of this setting.
+  mcpHttp: false,
+
+  // POST /__rpc calls any request or event feature by name:
+  // { feature, input } or a batch array of them. Same auth, rate limits and
+  // validation as routed calls. Bodies must be application/json (415
+  // otherwise), so cross-site forms can't call features with a user's cookies.
+  rpc: true,
+
+  // GET /__manifest describes every loaded feature, GET /__openapi.json every
+  // route. Open in debug mode; in production they need this token as a bearer
+  // token, and are hidden without one.
+  introspectionToken: Bun.env.MANIFEST_INTROSPECTION_TOKEN ?? '',
+
+  // In debug mode, re-import features/ and extension features when they change
+  // and swap them in without restarting. SSE clients and rate limit counters
+  // survive the reload. Start with `bun run dev` (plain `bun index.ts`):
+  // `bun --hot` re-runs the whole server on a feature edit, so this is off
+  // under it. Changes outside features still need a restart.
+  hotReload: true,
+
+  // CORS for browsers calling the API from another origin (a separate
+  // frontend host, a Vite dev server). No origins means no CORS headers.
+  // '*' allows any origin. Features override these with their own `cors`.
+  corsOrigins: (Bun.env.CORS_ORIGINS?.split(',').map((o) => o.trim()).filter(Boolean) ?? []) as string[],
+  // Methods allowed in preflight. Empty: the methods the requested path serves.
+  corsMethods: [] as string[],
+  // Request headers allowed in preflight.
+  corsHeaders: ['Content-Type', 'Authorization'] as string[],
+  // Response headers the browser may read.
+  corsExposeHeaders: ['Retry-After', 'X-RateLimit-Limit', 'X-RateLimit-Remaining'] as string[],
+  // Allow cookies and Authorization on cross-origin requests. Not sent with
+  // '*' origins, which would let every site make credentialed calls.
+  corsCredentials: false,
+  // Seconds a browser may cache a preflight answer.
+  corsMaxAge: 600,
+
+  // Hardening headers on every response. Headers a response sets itself win.
+  securityHeaders: true,
+  // Strict-Transport-Security, sent in production only. Empty: not sent.
+  hsts: Bun.env.NODE_ENV === 'production' ? 'max-age=31536000; includeSubDomains' : '',
+  referrerPolicy: 'strict-origin-when-cross-origin',
+  // X-Frame-Options: 'DENY', 'SAMEORIGIN' or '' to leave it out.
+  frameOptions: 'DENY' as 'DENY' | 'SAMEORIGIN' | '',
+  // Content-Security-Policy for HTML pages. "'nonce'" becomes a fresh
+  // 'nonce-...' per response, injected into the <script> and <style> tags of
+  // HTML served from dist/. Styles allow 'unsafe-inline' (a nonce would turn
+  // it off) because the Tailwind browser build injects its own <style> tags.
+  contentSecurityPolicy: {
+    'default-src': ["'self'"],
+    'script-src': ["'self'", "'nonce'", 'https://unpkg.com'],
+    'style-src': ["'self'", "'unsafe-inline'", 'https://fonts.googleapis.com'],
+    'font-src': ["'self'", 'https://fonts.gstatic.com'],
+    'img-src': ["'self'", 'data:'],
+    'connect-src': ["'self'"],
+    'object-src': ["'none'"],
+    'base-uri': ["'self'"],
+    'frame-ancestors': ["'none'"],
+  } as Record<string, string[]>,
+  // Content-Security-Policy for everything else: JSON, SSE, scripts, images.
+  apiContentSecurityPolicy: {
+    'default-src': ["'none'"],
+    'frame-ancestors': ["'none'"],
+  } as Record<string, string[]>,
+
   // --- Not yet implemented ---
   // Uncomment when rate limiting is added to the framework:
   // rateLimitDriver: 'memory' as const,
@@ -1,10 +1,10 @@
 import { createResource, Show } from 'solid-js'
+import { helloWorld } from './generated/api'
 
 async function fetchGreeting() {
-  const res = await fetch('/api/hello?name=Manifest')
-  if (!res.ok) throw new Error(`HTTP ${res.status}`)
-  const json = await res.json()
-  return json.data
+  const result = await helloWorld({ name: 'Manifest' })
+  if (!result.ok) throw new Error(result.message)
+  return result.data
 }
 
 export default function App() {
@@ -24,7 +24,7 @@ export default function App() {
         <Show when={greeting()}>
           {(data) => (
             <>
-              <h1 class="text-4xl font-bold text-gray-900">{data().message}</h1>
+              <h1 class="text-4xl font-bold text-gray-900">{data().greeting}</h1>
               <p class="mt-2 text-gray-600">Frontend is connected to the API.</p>
             </>
           )}
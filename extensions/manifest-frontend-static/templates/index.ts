@@ -1,16 +1,17 @@
 import './styles.css'
+import { helloWorld } from './generated/api'
 
 async function main() {
   const app = document.getElementById('app')!
 
   try {
-    const response = await fetch('/api/hello?name=Manifest')
-    const data = await response.json()
+    const result = await helloWorld({ name: 'Manifest' })
+    if (!result.ok) throw new Error(result.message)
 
     app.innerHTML = `
       <div class="min-h-screen flex items-center justify-center bg-gray-50">
         <div class="text-center">
-          <h1 class="text-4xl font-bold text-gray-900">${data.message}</h1>
+          <h1 class="text-4xl font-bold text-gray-900">${result.data.greeting}</h1>
           <p class="mt-2 text-gray-600">Frontend is connected to the API.</p>
         </div>
       </div>
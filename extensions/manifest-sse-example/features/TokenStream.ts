@@ -12,15 +12,15 @@ export default defineFeature({
   errorCases: ['400 - Empty prompt'],
 
   input: {
-    prompt: t.string({ description: 'Text to echo back token by token.', required: true }),
-    delay: t.integer({ description: 'Milliseconds between each token. Defaults to 80.', required: false, min: 0, max: 2000 }),
+    prompt: t.string({ description: 'Text to echo back token by token.', required: true, trim: true }),
+    delay: t.integer({ description: 'Milliseconds between each token.', required: false, default: 80, min: 0, max: 2000 }),
   },
 
   async stream({ input, emit, fail }) {
-    const text = String(input.prompt).trim()
+    const text = input.prompt
     if (!text) return fail('Empty prompt')
 
-    const delayMs = Number(input.delay ?? 80)
+    const delayMs = input.delay
     const tokens = text.split(/\s+/)
 
     emit('start', { totalTokens: tokens.length })
@@ -13,14 +13,19 @@ export default defineFeature({
 
   input: {
     name: t.string({
-      description: 'The name to greet. Defaults to "World" if not provided.',
+      description: 'The name to greet.',
       required: false,
+      default: 'World',
       maxLength: 100,
     }),
   },
 
+  output: {
+    greeting: t.string({ description: 'The full greeting, e.g. "Hello, Jane!".', required: true }),
+  },
+
   async handle({ input, ok }) {
-    const name = String(input.name ?? 'World')
+    const name = input.name
     return ok(`Hello, ${name}!`, {
       data: { greeting: `Hello, ${name}!` },
     })
@@ -0,0 +1,138 @@
+// Generated by manifest/apiClient.ts from the feature registry. Do not edit.
+// Regenerated on every frontend build; run `bun run generate:client` to update it by hand.
+
+export interface ResponseMeta {
+  feature: string
+  request_id: string
+  duration_ms: number
+}
+
+/** Error codes keyed by input field. Nested fields use paths like `items.2.email`. */
+export type FieldErrors<TInput> = { [K in keyof TInput]?: string } & Record<string, string>
+
+export interface ApiSuccess<TData> {
+  ok: true
+  status: number
+  message: string
+  data: TData
+  meta?: ResponseMeta
+}
+
+/** A failed call. `errors` is filled for 422 Validation failed. */
+export interface ApiFailure<TInput> {
+  ok: false
+  status: number
+  message: string
+  errors: FieldErrors<TInput>
+  meta?: ResponseMeta
+}
+
+export type ApiResponse<TData, TInput> = ApiSuccess<TData> | ApiFailure<TInput>
+
+export interface StreamEvent {
+  /** 'message' for data-only events; the server sends 'meta' first and 'error' on failure. */
+  event: string
+  data: unknown
+}
+
+/** Thrown by stream functions when the server refuses the call (e.g. 401, 422). */
+export class ApiError extends Error {
+  constructor(public response: ApiFailure<Record<string, unknown>>) {
+    super(response.message)
+  }
+}
+
+/** Base URL and headers sent with every call. */
+export const apiConfig: { baseUrl: string; headers: Record<string, string> } = { baseUrl: '', headers: {} }
+
+const BODY_METHODS = ['POST', 'PUT', 'PATCH']
+
+function prepare(method: string, pattern: string, input: Record<string, unknown>): [string, RequestInit] {
+  const rest: Record<string, unknown> = { ...input }
+  // ':id' is required, ':page?' and '*path' may be left out; '*path' keeps its slashes
+  const pathname = '/' + pattern.split('/').filter(Boolean).flatMap((segment) => {
+    const param = /^([:*])([A-Za-z0-9_]+)(\?)?$/.exec(segment)
+    if (!param) return [segment]
+    const value = rest[param[2]!]
+    delete rest[param[2]!]
+    if ((value === undefined || value === null || value === '') && (param[1] === '*' || param[3])) return []
+    if (param[1] === '*') return String(value).split('/').map(encodeURIComponent)
+    return [encodeURIComponent(String(value))]
+  }).join('/')
+  const init: RequestInit = { method, headers: { ...apiConfig.headers } }
+  if (BODY_METHODS.includes(method)) {
+    init.body = JSON.stringify(rest)
+    ;(init.headers as Record<string, string>)['Content-Type'] = 'application/json'
+    return [apiConfig.baseUrl + pathname, init]
+  }
+  const query = new URLSearchParams()
+  for (const [key, value] of Object.entries(rest)) {
+    if (value === undefined || value === null) continue
+    for (const item of Array.isArray(value) ? value : [value]) query.append(key, String(item))
+  }
+  const search = query.toString()
+  return [apiConfig.baseUrl + pathname + (search ? `?${search}` : ''), init]
+}
+
+async function failure(res: Response): Promise<ApiFailure<Record<string, unknown>>> {
+  const body = await res.json().catch(() => ({ message: res.statusText }))
+  return { ...body, ok: false, status: res.status, errors: body.errors ?? {} }
+}
+
+async function request(method: string, pattern: string, input: object): Promise<any> {
+  const res = await fetch(...prepare(method, pattern, input as Record<string, unknown>))
+  if (!res.ok) return failure(res)
+  return { ...(await res.json()), ok: true }
+}
+
+async function* stream(method: string, pattern: string, input: object): AsyncGenerator<StreamEvent> {
+  const res = await fetch(...prepare(method, pattern, input as Record<string, unknown>))
+  if (!res.ok || !res.body) throw new ApiError(await failure(res))
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) return
+    buffer += value
+    let end: number
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const chunk = buffer.slice(0, end)
+      buffer = buffer.slice(end + 2)
+      let event = 'message'
+      const data: string[] = []
+      for (const line of chunk.split('\n')) {
+        if (line.startsWith('event: ')) event = line.slice(7)
+        else if (line.startsWith('data: ')) data.push(line.slice(6))
+      }
+      const text = data.join('\n')
+      let parsed: unknown = text
+      try { parsed = JSON.parse(text) } catch {}
+      yield { event, data: parsed }
+    }
+  }
+}
+
+/**
+ * A simple greeting endpoint. Returns a hello message with the provided name, or "World" if no name is given. This is the default demo feature that ships with every Manifest project.
+ *
+ * GET /api/hello
+ */
+export function helloWorld(input: helloWorld.Input = {}): Promise<ApiResponse<helloWorld.Output, helloWorld.Input>> {
+  return request("GET", "/api/hello", input)
+}
+export namespace helloWorld {
+  export type Input = { name?: string }
+  export type Output = { greeting: string }
+}
+
+/**
+ * Streams text back token by token via Server-Sent Events. Accepts a prompt and echoes it word-by-word with a short delay between each token. This is a demo feature that simulates AI-style token streaming without external dependencies.
+ *
+ * POST /api/stream/tokens
+ */
+export function tokenStream(input: tokenStream.Input): AsyncGenerator<StreamEvent> {
+  return stream("POST", "/api/stream/tokens", input)
+}
+export namespace tokenStream {
+  export type Input = { prompt: string; delay?: number }
+}
@@ -0,0 +1,290 @@
+/**
+ * Generates a typed TypeScript client for the frontend from the feature
+ * registry, written to `frontend/generated/api.ts` by default (see
+ * `apiClient` in config/frontend.ts).
+ *
+ * Every routed request feature becomes an async function named after it
+ * ('hello-world' → helloWorld) that takes the typed input, fills in path
+ * params, sends the rest as query (GET, DELETE) or JSON body (POST, PUT,
+ * PATCH) and resolves to the typed response envelope. Stream features become
+ * async generators yielding their SSE events.
+ *
+ * buildFrontend() regenerates the client before every build, and
+ * watchFrontend() rebuilds when features change. Run
+ * `bun run generate:client` to regenerate by hand.
+ */
+
+import path from 'path'
+import fs from 'fs'
+import { scanAllFeatures, type FeatureRegistry } from './scanner'
+import type { AnyFeatureDef } from './feature'
+import type { FieldDef, InputSchemaDef } from './types'
+import { parseRoute, type RouteSegment } from './router'
+
+export const DEFAULT_API_CLIENT_PATH = 'frontend/generated/api.ts'
+
+const IDENTIFIER_RE = /^[A-Za-z_$][A-Za-z0-9_$]*$/
+
+function propertyKey(name: string): string {
+  return IDENTIFIER_RE.test(name) ? name : JSON.stringify(name)
+}
+
+/** 'hello-world' → 'helloWorld' */
+export function functionName(featureName: string): string {
+  const camel = featureName.replace(/[^A-Za-z0-9]+(.)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : ''))
+  return /^[0-9]/.test(camel) ? `_${camel}` : camel
+}
+
+function scalarType(type: string): string {
+  if (type === 'string') return 'string'
+  if (type === 'integer' || type === 'number') return 'number'
+  if (type === 'boolean') return 'boolean'
+  return 'unknown'
+}
+
+function fieldType(field: FieldDef, mode: 'input' | 'output'): string {
+  switch (field.type) {
+    case 'string':
+    case 'integer':
+    case 'number':
+    case 'boolean':
+      return scalarType(field.type)
+    case 'array': {
+      const item = field.items ? fieldType(field.items, mode) : scalarType(field.itemType)
+      return /^[A-Za-z]+$/.test(item) ? `${item}[]` : `Array<${item}>`
+    }
+    case 'object':
+      return objectType(field.fields, mode)
+    case 'enum':
+      return field.values.map((v) => JSON.stringify(v)).join(' | ')
+    case 'literal':
+      return JSON.stringify(field.value)
+    case 'union':
+      return field.variants.map((v) => fieldType(v, mode)).join(' | ')
+  }
+}
+
+/**
+ * Input keys are required only when the server needs them from the caller
+ * (required with no default); output keys are present when required or
+ * defaulted.
+ */
+function objectType(schema: InputSchemaDef, mode: 'input' | 'output', extra: string[] = []): string {
+  const members = Object.entries(schema).map(([name, field]) => {
+    const present = mode === 'input' ? field.required && field.default === undefined : field.required || field.default !== undefined
+    return `${propertyKey(name)}${present ? '' : '?'}: ${fieldType(field, mode)}`
+  })
+  members.push(...extra)
+  return members.length > 0 ? `{ ${members.join('; ')} }` : 'Record<string, never>'
+}
+
+type PathParam = Exclude<RouteSegment, { kind: 'static' }>
+
+/** Optional params and catch-alls can be left out of a call. */
+function isRequiredParam(param: PathParam): boolean {
+  return param.kind === 'param' && !param.optional
+}
+
+/**
+ * The route as the client fills it in: constraints dropped, optional params
+ * and catch-alls kept ('/files/:id(\d+)/*rest' → '/files/:id/*rest').
+ */
+function clientPattern(segments: RouteSegment[]): string {
+  return '/' + segments.map((s) => {
+    if (s.kind === 'static') return s.value
+    if (s.kind === 'catchAll') return `*${s.name}`
+    return `:${s.name}${s.optional ? '?' : ''}`
+  }).join('/')
+}
+
+function docComment(feature: AnyFeatureDef): string {
+  const [method, pattern] = feature.route!
+  const description = feature.description.replace(/\s+/g, ' ').trim()
+  return `/**\n * ${description}\n *\n * ${method} ${pattern}\n */`
+}
+
+function featureFunction(feature: AnyFeatureDef): string {
+  const [method, pattern] = feature.route!
+  const name = functionName(feature.name)
+  const segments = parseRoute(pattern)
+  const params = segments.filter((s): s is PathParam => s.kind !== 'static')
+  const undeclared = params
+    .filter((p) => !(p.name in feature.input))
+    .map((p) => `${propertyKey(p.name)}${isRequiredParam(p) ? '' : '?'}: string | number`)
+  const inputType = objectType(feature.input, 'input', undeclared)
+  const hasRequired = params.some(isRequiredParam) || Object.values(feature.input).some((f) => f.required && f.default === undefined)
+  const inputParam = `input: ${name}.Input${hasRequired ? '' : ' = {}'}`
+  const call = `${JSON.stringify(method)}, ${JSON.stringify(clientPattern(segments))}, input`
+
+  if (feature.type === 'stream') {
+    return [
+      docComment(feature),
+      `export function ${name}(${inputParam}): AsyncGenerator<StreamEvent> {`,
+      `  return stream(${call})`,
+      `}`,
+      `export namespace ${name} {`,
+      `  export type Input = ${inputType}`,
+      `}`,
+    ].join('\n')
+  }
+
+  const outputType = feature.output ? objectType(feature.output, 'output') : 'unknown'
+  return [
+    docComment(feature),
+    `export function ${name}(${inputParam}): Promise<ApiResponse<${name}.Output, ${name}.Input>> {`,
+    `  return request(${call})`,
+    `}`,
+    `export namespace ${name} {`,
+    `  export type Input = ${inputType}`,
+    `  export type Output = ${outputType}`,
+    `}`,
+  ].join('\n')
+}
+
+const RUNTIME = `export interface ResponseMeta {
+  feature: string
+  request_id: string
+  duration_ms: number
+}
+
+/** Error codes keyed by input field. Nested fields use paths like \`items.2.email\`. */
+export type FieldErrors<TInput> = { [K in keyof TInput]?: string } & Record<string, string>
+
+export interface ApiSuccess<TData> {
+  ok: true
+  status: number
+  message: string
+  data: TData
+  meta?: ResponseMeta
+}
+
+/** A failed call. \`errors\` is filled for 422 Validation failed. */
+export interface ApiFailure<TInput> {
+  ok: false
+  status: number
+  message: string
+  errors: FieldErrors<TInput>
+  meta?: ResponseMeta
+}
+
+export type ApiResponse<TData, TInput> = ApiSuccess<TData> | ApiFailure<TInput>
+
+export interface StreamEvent {
+  /** 'message' for data-only events; the server sends 'meta' first and 'error' on failure. */
+  event: string
+  data: unknown
+}
+
+/** Thrown by stream functions when the server refuses the call (e.g. 401, 422). */
+export class ApiError extends Error {
+  constructor(public response: ApiFailure<Record<string, unknown>>) {
+    super(response.message)
+  }
+}
+
+/** Base URL and headers sent with every call. */
+export const apiConfig: { baseUrl: string; headers: Record<string, string> } = { baseUrl: '', headers: {} }
+
+const BODY_METHODS = ['POST', 'PUT', 'PATCH']
+
+function prepare(method: string, pattern: string, input: Record<string, unknown>): [string, RequestInit] {
+  const rest: Record<string, unknown> = { ...input }
+  // ':id' is required, ':page?' and '*path' may be left out; '*path' keeps its slashes
+  const pathname = '/' + pattern.split('/').filter(Boolean).flatMap((segment) => {
+    const param = /^([:*])([A-Za-z0-9_]+)(\\?)?$/.exec(segment)
+    if (!param) return [segment]
+    const value = rest[param[2]!]
+    delete rest[param[2]!]
+    if ((value === undefined || value === null || value === '') && (param[1] === '*' || param[3])) return []
+    if (param[1] === '*') return String(value).split('/').map(encodeURIComponent)
+    return [encodeURIComponent(String(value))]
+  }).join('/')
+  const init: RequestInit = { method, headers: { ...apiConfig.headers } }
+  if (BODY_METHODS.includes(method)) {
+    init.body = JSON.stringify(rest)
+    ;(init.headers as Record<string, string>)['Content-Type'] = 'application/json'
+    return [apiConfig.baseUrl + pathname, init]
+  }
+  const query = new URLSearchParams()
+  for (const [key, value] of Object.entries(rest)) {
+    if (value === undefined || value === null) continue
+    for (const item of Array.isArray(value) ? value : [value]) query.append(key, String(item))
+  }
+  const search = query.toString()
+  return [apiConfig.baseUrl + pathname + (search ? \`?\${search}\` : ''), init]
+}
+
+async function failure(res: Response): Promise<ApiFailure<Record<string, unknown>>> {
+  const body = await res.json().catch(() => ({ message: res.statusText }))
+  return { ...body, ok: false, status: res.status, errors: body.errors ?? {} }
+}
+
+async function request(method: string, pattern: string, input: object): Promise<any> {
+  const res = await fetch(...prepare(method, pattern, input as Record<string, unknown>))
+  if (!res.ok) return failure(res)
+  return { ...(await res.json()), ok: true }
+}
+
+async function* stream(method: string, pattern: string, input: object): AsyncGenerator<StreamEvent> {
+  const res = await fetch(...prepare(method, pattern, input as Record<string, unknown>))
+  if (!res.ok || !res.body) throw new ApiError(await failure(res))
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) return
+    buffer += value
+    let end: number
+    while ((end = buffer.indexOf('\\n\\n')) !== -1) {
+      const chunk = buffer.slice(0, end)
+      buffer = buffer.slice(end + 2)
+      let event = 'message'
+      const data: string[] = []
+      for (const line of chunk.split('\\n')) {
+        if (line.startsWith('event: ')) event = line.slice(7)
+        else if (line.startsWith('data: ')) data.push(line.slice(6))
+      }
+      const text = data.join('\\n')
+      let parsed: unknown = text
+      try { parsed = JSON.parse(text) } catch {}
+      yield { event, data: parsed }
+    }
+  }
+}`
+
+/**
+ * Generates the client module source for every routed request and stream
+ * feature in a registry.
+ */
+export function generateApiClient(registry: FeatureRegistry): string {
+  const features = Object.values(registry)
+    .filter((f) => f.route && f.type !== 'event')
+    .sort((a, b) => a.name.localeCompare(b.name))
+
+  return [
+    '// Generated by manifest/apiClient.ts from the feature registry. Do not edit.',
+    '// Regenerated on every frontend build; run `bun run generate:client` to update it by hand.',
+    '',
+    RUNTIME,
+    '',
+    ...features.map((f) => featureFunction(f) + '\n'),
+  ].join('\n')
+}
+
+/**
+ * Scans the project's features and writes the client to `outFile`
+ * (relative to the project). Skips the write when nothing changed, so file
+ * watchers don't rebuild for nothing. Returns whether the file was written.
+ * Features are re-imported on every call, so edits since the last one show up.
+ */
+export async function writeApiClient(projectDir: string, outFile: string = DEFAULT_API_CLIENT_PATH): Promise<boolean> {
+  const registry = await scanAllFeatures(projectDir, { version: Bun.randomUUIDv7() })
+  const source = generateApiClient(registry)
+  const target = path.resolve(projectDir, outFile)
+  try {
+    if (fs.readFileSync(target, 'utf8') === source) return false
+  } catch {}
+  fs.mkdirSync(path.dirname(target), { recursive: true })
+  fs.writeFileSync(target, source)
+  return true
+}
@@ -0,0 +1,174 @@
+/**
+ * Authentication for Manifest features.
+ *
+ * An authenticator is a plain function that receives the incoming Request and
+ * returns the user it belongs to, or null. The server runs it after routing,
+ * for every feature whose `authentication` is 'required' or 'optional':
+ *   - 'required' + null user → 401, the handler never runs
+ *   - 'optional' + null user → handler runs with ctx.user === null
+ *   - 'none'                 → authenticator is never called
+ *
+ * Usage:
+ *   createManifestServer({
+ *     projectDir: import.meta.dir,
+ *     authenticate: chainAuthenticators(
+ *       bearerToken({ verify: (token) => lookupToken(token) }),
+ *       sessionCookie({ secret: Bun.env.SESSION_SECRET! }),
+ *     ),
+ *   })
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+
+/**
+ * The authenticated user passed to handlers as `ctx.user`.
+ * Extend it with declaration merging to type your own user fields:
+ *
+ *   declare module '../manifest/auth' {
+ *     interface AuthUser { email: string; role: 'admin' | 'member' }
+ *   }
+ */
+export interface AuthUser {
+  id: string
+  [key: string]: unknown
+}
+
+export type AuthenticationMode = 'none' | 'required' | 'optional'
+
+/** Resolves the user for a request. Return null when the request is anonymous. */
+export type Authenticator = (req: Request) => AuthUser | null | Promise<AuthUser | null>
+
+/**
+ * Resolves the user for a feature call. Never calls the authenticator for
+ * 'none' features. Returns `{ allowed: false }` when a 'required' feature
+ * has no user.
+ */
+export async function resolveUser(
+  mode: AuthenticationMode,
+  req: Request,
+  authenticate: Authenticator | undefined,
+): Promise<{ allowed: boolean; user: AuthUser | null }> {
+  if (mode === 'none') return { allowed: true, user: null }
+  const user = authenticate ? await authenticate(req) : null
+  if (mode === 'required' && !user) return { allowed: false, user: null }
+  return { allowed: true, user }
+}
+
+/**
+ * Tries each authenticator in order and returns the first user found.
+ */
+export function chainAuthenticators(...authenticators: Authenticator[]): Authenticator {
+  return async (req) => {
+    for (const authenticate of authenticators) {
+      const user = await authenticate(req)
+      if (user) return user
+    }
+    return null
+  }
+}
+
+/**
+ * Reads `Authorization: Bearer <token>` and passes the token to `verify`.
+ */
+export function bearerToken(opts: {
+  verify: (token: string, req: Request) => AuthUser | null | Promise<AuthUser | null>
+}): Authenticator {
+  return async (req) => {
+    const header = req.headers.get('authorization')
+    if (!header) return null
+    const [scheme, token] = header.split(' ', 2)
+    if (scheme?.toLowerCase() !== 'bearer' || !token) return null
+    return opts.verify(token.trim(), req)
+  }
+}
+
+/**
+ * Reads an API key from a request header (default `x-api-key`) and passes it to `verify`.
+ */
+export function apiKey(opts: {
+  header?: string
+  verify: (key: string, req: Request) => AuthUser | null | Promise<AuthUser | null>
+}): Authenticator {
+  const header = opts.header ?? 'x-api-key'
+  return async (req) => {
+    const key = req.headers.get(header)
+    if (!key) return null
+    return opts.verify(key, req)
+  }
+}
+
+function hmac(value: string, secret: string): string {
+  return createHmac('sha256', secret).update(value).digest('base64url')
+}
+
+/**
+ * Signs a session payload for use in a cookie read by sessionCookie().
+ * Format: base64url(JSON payload) + '.' + base64url(HMAC-SHA256 signature).
+ * Set `exp` (unix seconds) on the payload to make the session expire.
+ */
+export function signSession(payload: Record<string, unknown>, secret: string): string {
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${body}.${hmac(body, secret)}`
+}
+
+/**
+ * Verifies a value produced by signSession(). Returns the payload, or null if
+ * the signature does not match or the session has expired.
+ */
+export function verifySession(value: string, secret: string): Record<string, unknown> | null {
+  const dot = value.lastIndexOf('.')
+  if (dot <= 0) return null
+  const body = value.slice(0, dot)
+  const given = Buffer.from(value.slice(dot + 1))
+  const expected = Buffer.from(hmac(body, secret))
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null
+
+  let payload: unknown
+  try {
+    payload = JSON.parse(Buffer.from(body, 'base64url').toString())
+  } catch {
+    return null
+  }
+  if (!payload || typeof payload !== 'object') return null
+  const exp = (payload as Record<string, unknown>).exp
+  if (typeof exp === 'number' && exp * 1000 < Date.now()) return null
+  return payload as Record<string, unknown>
+}
+
+function readCookie(req: Request, name: string): string | null {
+  const header = req.headers.get('cookie')
+  if (!header) return null
+  for (const part of header.split(';')) {
+    const eq = part.indexOf('=')
+    if (eq === -1) continue
+    if (part.slice(0, eq).trim() !== name) continue
+    // A malformed escape like '%E0%A4%A' counts as no cookie, not a 500
+    try {
+      return decodeURIComponent(part.slice(eq + 1).trim())
+    } catch {
+      return null
+    }
+  }
+  return null
+}
+
+/**
+ * Reads a signed session cookie (default `manifest_session`) and turns its
+ * payload into a user. By default the payload itself is the user and must
+ * carry a string `id`.
+ */
+export function sessionCookie(opts: {
+  secret: string
+  cookieName?: string
+  toUser?: (payload: Record<string, unknown>) => AuthUser | null | Promise<AuthUser | null>
+}): Authenticator {
+  const cookieName = opts.cookieName ?? 'manifest_session'
+  return async (req) => {
+    const value = readCookie(req, cookieName)
+    if (!value) return null
+    const payload = verifySession(value, opts.secret)
+    if (!payload) return null
+    if (opts.toUser) return opts.toUser(payload)
+    return typeof payload.id === 'string' ? (payload as AuthUser) : null
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Request body reading for the HTTP server.
+ *
+ * Features take JSON bodies: application/json or any application/*+json
+ * type. POST, PUT and PATCH bodies of another type answer 415; GET and
+ * DELETE ignore them. Bodies over the size limit answer 413. The limit is
+ * the feature's `maxBodySize`, else `maxBodySize` in config/manifest.ts. A
+ * Content-Length over the limit is refused without reading the body; bodies
+ * without one (chunked) are read until they pass it.
+ */
+
+import type { HttpMethod } from './feature'
+
+/** Methods whose input arrives as a body. */
+export const BODY_METHODS = new Set<HttpMethod>(['POST', 'PUT', 'PATCH'])
+
+export type BodyResult = { body: unknown } | { status: number; message: string }
+
+/** Whether the request says it has a body. */
+export function hasBody(req: Request): boolean {
+  if (!req.body) return false
+  const length = req.headers.get('content-length')
+  return length === null ? req.headers.has('transfer-encoding') : Number(length) > 0
+}
+
+/** 'application/json', 'application/merge-patch+json; charset=utf-8' */
+export function isJsonContentType(contentType: string | null): boolean {
+  const type = contentType?.split(';')[0]!.trim().toLowerCase() ?? ''
+  return type === 'application/json' || /^application\/[\w.-]+\+json$/.test(type)
+}
+
+/** The 415 for a body that isn't JSON. */
+export function unsupportedContentType(contentType: string | null): { status: number; message: string } {
+  return { status: 415, message: `Unsupported content type${contentType ? ` '${contentType}'` : ''}. Send application/json.` }
+}
+
+/** Reads at most `limit` bytes. Null when the body is longer. */
+async function readLimited(req: Request, limit: number): Promise<Uint8Array | null> {
+  if (!req.body) return new Uint8Array()
+  const reader = req.body.getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > limit) {
+      await reader.cancel().catch(() => {})
+      return null
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+/** Reads and parses a JSON body of at most `maxBodySize` bytes: 413 when larger, 400 when not JSON. */
+export async function readJsonBody(req: Request, maxBodySize: number): Promise<BodyResult> {
+  const tooLarge = { status: 413, message: `Request body too large (limit ${maxBodySize} bytes)` }
+  if (Number(req.headers.get('content-length')) > maxBodySize) return tooLarge
+  const bytes = await readLimited(req, maxBodySize)
+  if (!bytes) return tooLarge
+  try {
+    return { body: JSON.parse(new TextDecoder().decode(bytes)) }
+  } catch {
+    return { status: 400, message: 'Invalid JSON body' }
+  }
+}
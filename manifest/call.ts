@@ -0,0 +1,207 @@
+/**
+ * The call pipeline every transport shares: routed requests, POST /__rpc and
+ * MCP tool calls. One call runs
+ *
+ *   rate limit → auth → readInput() → prepareInput() → stream or handle → envelope
+ *
+ * and logs its access entry and Spark events on the way. Request features
+ * are checked against their output schema in debug mode. Stream features are
+ * handed to the transport's `runStream`, which decides how events reach the
+ * caller (an SSE response, MCP progress notifications).
+ */
+
+import { resolveUser, type AuthUser, type Authenticator } from './auth'
+import { prepareInput } from './input'
+import { validateOutput } from './validator'
+import { toEnvelope, createResultHelpers } from './envelope'
+import type { EventBus } from './events'
+import type { UrlForFn } from './urls'
+import type { AnyFeatureDef, StreamFeatureDef } from './feature'
+import { checkRateLimit } from '../services/rateLimiter'
+import type { AccessLog, SparkEvent } from '../services/sparkDb'
+import manifestConfig from '../config/manifest'
+
+/** Where a call's access entries and Spark events go. */
+export interface CallLog {
+  access(entry: AccessLog): void
+  event(event: SparkEvent): void
+}
+
+/** One feature call: the request it arrived on and its own request id. */
+export interface CallContext {
+  req: Request
+  method: string
+  path: string
+  /** Route label for Spark events, e.g. 'GET /api/hello', 'RPC hello-world' or 'MCP hello-world'. */
+  route: string
+  /** Client address; also the rate limit key. */
+  ip: string | undefined
+  requestId: string
+  start: number
+  /** Bus for ctx.publish(). */
+  events: EventBus
+  urlFor: UrlForFn
+}
+
+/** A non-streaming call result: the response envelope and its HTTP status. */
+export type CallOutcome = { status: number; body: object; headers?: Record<string, string> }
+
+export type ReadInput = () => Promise<{ input: Record<string, unknown> } | { status: number; message: string }>
+
+/** Runs a stream feature once its input is valid. Errors it throws are reported as server errors. */
+export type StreamRunner = (
+  feature: StreamFeatureDef,
+  input: Record<string, unknown>,
+  user: AuthUser | null,
+  call: CallContext,
+) => Promise<CallOutcome | Response>
+
+export type CallHandler = (
+  feature: AnyFeatureDef,
+  call: CallContext,
+  readInput: ReadInput,
+  options: { allowKeys?: string[]; runStream: StreamRunner },
+) => Promise<CallOutcome | Response>
+
+export function elapsed(start: number): number {
+  return Math.round((performance.now() - start) * 100) / 100
+}
+
+/** The error envelope for a call that ends before the feature runs. */
+export function rejectCall(feature: AnyFeatureDef, call: CallContext, status: number, message: string, extra: { errors?: Record<string, string>; headers?: Record<string, string> } = {}): CallOutcome {
+  return {
+    status,
+    headers: extra.headers,
+    body: {
+      status,
+      message,
+      ...(extra.errors && { errors: extra.errors }),
+      meta: { feature: feature.name, request_id: call.requestId, duration_ms: elapsed(call.start) },
+    },
+  }
+}
+
+/**
+ * Creates the call handler. `allowKeys` (path params) pass the unknown
+ * fields policy even when undeclared.
+ */
+export function createCallHandler(options: { authenticate?: Authenticator; log: CallLog }): CallHandler {
+  const { log } = options
+
+  function logCall(feature: AnyFeatureDef, call: CallContext, status: number, extra: Partial<AccessLog> = {}) {
+    log.access({
+      timestamp: new Date().toISOString(), method: call.method, path: call.path, status,
+      duration_ms: elapsed(call.start), ip: call.ip, feature: feature.name, request_id: call.requestId,
+      user_agent: call.req.headers.get('user-agent') ?? undefined, ...extra,
+    })
+  }
+
+  return async (feature, call, readInput, { allowKeys = [], runStream }) => {
+    const { requestId } = call
+
+    // Rate limit check (before input parsing)
+    if (feature.rateLimit) {
+      const ip = call.ip ?? 'unknown'
+      const key = `${feature.name}:${ip}`
+      const result = checkRateLimit(key, feature.rateLimit)
+      if (!result.allowed) {
+        logCall(feature, call, 429, { ip })
+        log.event({
+          type: 'rate-limit',
+          traceId: requestId,
+          feature: feature.name,
+          route: call.route,
+          status: 429,
+        })
+        return rejectCall(feature, call, 429, 'Rate limit exceeded', {
+          headers: {
+            'Retry-After': String(result.retryAfter),
+            'X-RateLimit-Limit': String(feature.rateLimit.max),
+            'X-RateLimit-Remaining': '0',
+          },
+        })
+      }
+    }
+
+    let input: Record<string, unknown> = {}
+
+    try {
+      // Authentication (after routing, before input parsing)
+      const auth = await resolveUser(feature.authentication, call.req, options.authenticate)
+      if (!auth.allowed) {
+        logCall(feature, call, 401)
+        return rejectCall(feature, call, 401, 'Authentication required', { headers: { 'WWW-Authenticate': 'Bearer' } })
+      }
+      const user = auth.user
+
+      const read = await readInput()
+      if (!('input' in read)) {
+        logCall(feature, call, read.status, { error: read.message })
+        return rejectCall(feature, call, read.status, read.message)
+      }
+
+      // Defaults, transforms (trim, lowercase, toDate), the unknown fields
+      // policy and validation. Path params always pass, declared or not.
+      const prepared = prepareInput(feature, read.input, { allowKeys })
+      input = prepared.input
+      const errors = prepared.errors
+      if (Object.keys(errors).length > 0) {
+        logCall(feature, call, 422, { input: JSON.stringify(input) })
+        return rejectCall(feature, call, 422, 'Validation failed', { errors })
+      }
+
+      if (feature.type === 'stream') {
+        const outcome = await runStream(feature, input, user, call)
+        logCall(feature, call, outcome.status, { input: JSON.stringify(input) })
+        return outcome
+      }
+
+      // Execute request features
+      const helpers = createResultHelpers()
+      const result = await feature.handle({
+        input, user, ok: helpers.ok, fail: helpers.fail,
+        publish: call.events.publisherFor(requestId), urlFor: call.urlFor,
+      })
+      const envelope = toEnvelope(result, { featureName: feature.name, requestId, durationMs: elapsed(call.start) })
+
+      // Dev-only: check ok() data against the declared output schema
+      if (manifestConfig.debug && feature.output && result.success) {
+        const outputErrors = validateOutput(feature.output, result.data)
+        if (Object.keys(outputErrors).length > 0) {
+          log.event({
+            type: 'output-mismatch',
+            traceId: requestId,
+            feature: feature.name,
+            route: call.route,
+            status: result.status,
+            error: { message: `Output does not match schema: ${JSON.stringify(outputErrors)}` },
+            request: { input },
+          })
+        }
+      }
+
+      logCall(feature, call, result.status, {
+        input: JSON.stringify(input),
+        error: result.status >= 500 ? result.message : undefined,
+      })
+
+      return { status: result.status, body: envelope }
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : String(err)
+      logCall(feature, call, 500, { input: JSON.stringify(input), error: errorMsg })
+      log.event({
+        type: 'server-error',
+        traceId: requestId,
+        feature: feature.name,
+        route: call.route,
+        status: 500,
+        error: {
+          message: errorMsg,
+          stack: err instanceof Error ? err.stack : undefined,
+        },
+        request: { input },
+      })
+      return rejectCall(feature, call, 500, 'Internal server error')
+    }
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Static checks on a feature registry, run at server start and by
+ * `bun run check`.
+ *
+ * Errors make a feature unreachable or unpredictable:
+ *   - invalid_route: a pattern the router can't parse (see router.ts)
+ *   - duplicate_route: two features on the same method and path shape
+ *     (param names aside, same constraints); the router keeps the first one
+ *     registered. Static segments beating params is by design.
+ *   - unreachable_field: a required input a GET or DELETE route can't
+ *     receive, because query strings can't carry objects
+ *   - invalid_pattern: a string `pattern` that isn't a valid regex
+ *
+ * Warnings are worth fixing but don't break anything:
+ *   - ambiguous_route: two routes that differ only in param constraints at
+ *     the same position (:id(\d+) and :id<uuid>). Usually the constraints
+ *     are disjoint; when a path passes both, the first registered wins.
+ *   - undeclared_param: a `:param` in the route that `input` doesn't declare
+ *   - missing_description: a feature or input field without a description
+ */
+
+import type { AnyFeatureDef, HttpMethod } from './feature'
+import type { FieldDef, InputSchemaDef } from './types'
+import type { FeatureRegistry } from './scanner'
+import { parseRoute, expandRoute, type RouteSegment } from './router'
+
+export type CheckCode =
+  | 'invalid_route'
+  | 'duplicate_route'
+  | 'ambiguous_route'
+  | 'unreachable_field'
+  | 'invalid_pattern'
+  | 'undeclared_param'
+  | 'missing_description'
+
+export interface CheckIssue {
+  severity: 'error' | 'warning'
+  code: CheckCode
+  feature: string
+  message: string
+}
+
+const QUERY_METHODS = new Set<HttpMethod>(['GET', 'DELETE'])
+
+/** Segment identity for comparing shapes: param names don't matter, constraints do. */
+function segmentKey(segment: RouteSegment): string {
+  if (segment.kind === 'static') return `/${segment.value}`
+  if (segment.kind === 'param') return `:${segment.constraint ?? ''}`
+  return '*'
+}
+
+/** How two expanded routes on the same method relate: null when the router always tells them apart. */
+function compareRoutes(a: string[], b: string[]): 'duplicate' | 'ambiguous' | null {
+  if (a.length !== b.length) return null
+  let duplicate = true
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i]!
+    const y = b[i]!
+    if (x === y) continue
+    // Two different constraints: the first registered is tried first
+    if (x.length > 1 && y.length > 1 && x.startsWith(':') && y.startsWith(':')) duplicate = false
+    else return null
+  }
+  return duplicate ? 'duplicate' : 'ambiguous'
+}
+
+/** Whether a query string can carry a value for this field. */
+function fitsQuery(field: FieldDef): boolean {
+  switch (field.type) {
+    case 'object':
+      return false
+    case 'array':
+      return !field.items || (field.items.type !== 'array' && fitsQuery(field.items))
+    case 'union':
+      return field.variants.every(fitsQuery)
+    default:
+      return true
+  }
+}
+
+/** Calls `visit` for every field in a schema, nested ones included ('address.zip', 'tags[]'). */
+function walkFields(schema: InputSchemaDef, visit: (path: string, field: FieldDef) => void, prefix = '') {
+  for (const [name, field] of Object.entries(schema)) {
+    const path = prefix + name
+    visit(path, field)
+    if (field.type === 'object') walkFields(field.fields, visit, `${path}.`)
+    if (field.type === 'array' && field.items) walkFields({ '[]': field.items }, visit, path)
+    if (field.type === 'union') field.variants.forEach((variant, i) => walkFields({ [`<${i}>`]: variant }, visit, path))
+  }
+}
+
+function checkFeature(feature: AnyFeatureDef): CheckIssue[] {
+  const issues: CheckIssue[] = []
+  const issue = (severity: CheckIssue['severity'], code: CheckCode, message: string) => {
+    issues.push({ severity, code, feature: feature.name, message })
+  }
+
+  if (!feature.description?.trim()) issue('warning', 'missing_description', 'Feature has no description')
+
+  walkFields(feature.input, (path, field) => {
+    // Array items and union variants are described by their parent
+    if (!path.endsWith(']') && !path.endsWith('>') && !field.description?.trim()) {
+      issue('warning', 'missing_description', `Input field '${path}' has no description`)
+    }
+    if (field.type === 'string' && field.pattern !== undefined) {
+      try {
+        new RegExp(field.pattern)
+      } catch (err) {
+        issue('error', 'invalid_pattern', `Input field '${path}' has an invalid pattern: ${err instanceof Error ? err.message : err}`)
+      }
+    }
+  })
+
+  if (!feature.route) return issues
+  const [method, pattern] = feature.route
+
+  let segments: RouteSegment[]
+  try {
+    segments = parseRoute(pattern)
+  } catch (err) {
+    issue('error', 'invalid_route', `Route ${method} ${pattern} is invalid: ${err instanceof Error ? err.message : err}`)
+    return issues
+  }
+  for (const segment of segments) {
+    if (segment.kind !== 'static' && !(segment.name in feature.input)) {
+      issue('warning', 'undeclared_param', `Route param '${segment.name}' in ${method} ${pattern} is not declared in input`)
+    }
+  }
+
+  if (QUERY_METHODS.has(method)) {
+    for (const [name, field] of Object.entries(feature.input)) {
+      if (field.required && field.default === undefined && !fitsQuery(field)) {
+        issue('error', 'unreachable_field', `Required input '${name}' (${field.type}) can't be sent in a ${method} query string`)
+      }
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Checks every feature in a registry (as returned by scanAllFeatures()).
+ * Route conflicts are reported once per pair, on the feature registered later.
+ */
+export function checkRegistry(registry: FeatureRegistry): CheckIssue[] {
+  const issues: CheckIssue[] = []
+  const routed: { feature: AnyFeatureDef; method: HttpMethod; pattern: string; variants: string[][] }[] = []
+
+  for (const feature of Object.values(registry)) {
+    const featureIssues = checkFeature(feature)
+    issues.push(...featureIssues)
+    if (!feature.route || featureIssues.some((i) => i.code === 'invalid_route')) continue
+    const [method, pattern] = feature.route
+    const variants = expandRoute(parseRoute(pattern)).map((variant) => variant.map(segmentKey))
+
+    for (const other of routed) {
+      if (other.method !== method) continue
+      // The strongest relation between any two expanded shapes (optional params)
+      const relations = other.variants.flatMap((a) => variants.map((b) => compareRoutes(a, b)))
+      const relation = relations.includes('duplicate') ? 'duplicate' : relations.includes('ambiguous') ? 'ambiguous' : null
+      if (!relation) continue
+      issues.push({
+        severity: relation === 'duplicate' ? 'error' : 'warning',
+        code: relation === 'duplicate' ? 'duplicate_route' : 'ambiguous_route',
+        feature: feature.name,
+        message: relation === 'duplicate'
+          ? `${method} ${pattern} duplicates ${method} ${other.pattern} (${other.feature.name})`
+          : `${method} ${pattern} and ${method} ${other.pattern} (${other.feature.name}) differ only in param constraints; a path both accept goes to the one registered first`,
+      })
+    }
+    routed.push({ feature, method, pattern, variants })
+  }
+
+  return issues
+}
+
+/** 'error   create-user: ...' */
+export function formatIssue(issue: CheckIssue): string {
+  return `${issue.severity.padEnd(7)} ${issue.feature}: ${issue.message} [${issue.code}]`
+}
@@ -0,0 +1,76 @@
+/**
+ * Coerces raw string values from the query string and path params into the
+ * types declared by the feature's input schema. JSON bodies are never coerced.
+ *
+ *   integer / number → Number, if the string is a valid number
+ *   boolean          → 'true' / '1' → true, 'false' / '0' → false
+ *   enum / literal   → the declared value whose string form matches
+ *   array            → repeated keys (?tag=a&tag=b) or comma-separated (?tag=a,b),
+ *                      items coerced by `itemType`
+ *
+ * Values that can't be coerced are left as strings so validateInput() reports
+ * them as `invalid_type`. Keys the schema doesn't declare keep their last value.
+ */
+
+import { setOwn } from './normalize'
+import type { FieldDef, InputSchemaDef } from './types'
+
+const INTEGER_RE = /^-?\d+$/
+const NUMBER_RE = /^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/
+
+function coerceScalar(type: string, value: string): unknown {
+  switch (type) {
+    case 'integer':
+      return INTEGER_RE.test(value) ? Number(value) : value
+    case 'number':
+      return NUMBER_RE.test(value) ? Number(value) : value
+    case 'boolean':
+      if (value === 'true' || value === '1') return true
+      if (value === 'false' || value === '0') return false
+      return value
+    default:
+      return value
+  }
+}
+
+function coerceOne(field: FieldDef, value: string): unknown {
+  if (field.type === 'enum') return field.values.find((v) => String(v) === value) ?? value
+  if (field.type === 'literal') return String(field.value) === value ? field.value : value
+  return coerceScalar(field.type, value)
+}
+
+function coerceField(field: FieldDef, values: string[]): unknown {
+  if (field.type === 'array') {
+    const items = values.length === 1 ? values[0]!.split(',') : values
+    return items
+      .filter((item) => item !== '')
+      .map((item) => (field.items ? coerceOne(field.items, item) : coerceScalar(field.itemType, item)))
+  }
+  return coerceOne(field, values[values.length - 1]!)
+}
+
+/**
+ * Coerces a map of raw string values (one or more per key) against a schema.
+ */
+export function coerceInput(schema: InputSchemaDef, raw: Record<string, string | string[]>): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(raw)) {
+    const values = Array.isArray(value) ? value : [value]
+    if (values.length === 0) continue
+    const field = Object.hasOwn(schema, key) ? schema[key] : undefined
+    setOwn(result, key, field ? coerceField(field, values) : values[values.length - 1])
+  }
+  return result
+}
+
+/**
+ * Collects URLSearchParams into a map of key → every value given for it.
+ */
+export function collectSearchParams(searchParams: URLSearchParams): Record<string, string[]> {
+  // No prototype, so keys like 'constructor' or '__proto__' start empty
+  const raw: Record<string, string[]> = Object.create(null)
+  for (const [key, value] of searchParams) {
+    ;(raw[key] ??= []).push(value)
+  }
+  return raw
+}
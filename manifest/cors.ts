@@ -0,0 +1,101 @@
+/**
+ * CORS for routed features.
+ *
+ * The global settings live in config/manifest.ts (corsOrigins, corsMethods,
+ * ...). A feature's `cors` option overrides any of them for that feature, or
+ * turns CORS off with `cors: false`:
+ *
+ *   cors: { origins: ['https://admin.example.com'], credentials: true }
+ *
+ * The server answers preflight OPTIONS requests for every routed path,
+ * stream features included, using the settings of the feature the requested
+ * method would reach. Actual responses from that feature (successes and
+ * errors alike) carry the CORS headers when the request's Origin is allowed.
+ */
+
+import type { AnyFeatureDef } from './feature'
+import manifestConfig from '../config/manifest'
+
+/** Per-feature CORS settings. Unset keys fall back to config/manifest.ts. */
+export interface CorsOptions {
+  /** Allowed origins, e.g. 'https://app.example.com'. '*' allows any. */
+  origins?: string[]
+  /** Methods allowed in preflight. Empty: the methods the path serves. */
+  methods?: string[]
+  /** Request headers allowed in preflight. */
+  headers?: string[]
+  /** Response headers the browser may read. */
+  exposeHeaders?: string[]
+  /** Allow cookies and Authorization on cross-origin requests. Ignored for '*': list the origins. */
+  credentials?: boolean
+  /** Seconds a browser may cache the preflight answer. */
+  maxAge?: number
+}
+
+export type ResolvedCors = Required<CorsOptions>
+
+/** The effective CORS settings for a feature, or null when CORS is off for it. */
+export function resolveCors(feature: AnyFeatureDef): ResolvedCors | null {
+  if (feature.cors === false) return null
+  const cors: ResolvedCors = {
+    origins: manifestConfig.corsOrigins,
+    methods: manifestConfig.corsMethods,
+    headers: manifestConfig.corsHeaders,
+    exposeHeaders: manifestConfig.corsExposeHeaders,
+    credentials: manifestConfig.corsCredentials,
+    maxAge: manifestConfig.corsMaxAge,
+    ...feature.cors,
+  }
+  return cors.origins.length > 0 ? cors : null
+}
+
+/**
+ * The Access-Control-Allow-Origin value for a request origin, or null when
+ * it isn't allowed. '*' is sent as a literal '*', never echoed, so it can't
+ * grant every site credentialed access.
+ */
+function allowOrigin(cors: ResolvedCors, origin: string): string | null {
+  if (cors.origins.includes('*')) return '*'
+  return cors.origins.includes(origin) ? origin : null
+}
+
+function originHeaders(cors: ResolvedCors, origin: string): Record<string, string> | null {
+  const allowed = allowOrigin(cors, origin)
+  if (!allowed) return null
+  const headers: Record<string, string> = { 'Access-Control-Allow-Origin': allowed }
+  if (allowed !== '*') headers['Vary'] = 'Origin'
+  // Browsers refuse credentials with '*': list the origins to allow them
+  if (cors.credentials && allowed !== '*') headers['Access-Control-Allow-Credentials'] = 'true'
+  return headers
+}
+
+/** Headers for an actual (non-preflight) response. Empty when the origin isn't allowed. */
+export function corsHeaders(cors: ResolvedCors | null, origin: string | null): Record<string, string> {
+  if (!cors || !origin) return {}
+  const headers = originHeaders(cors, origin)
+  if (!headers) return {}
+  if (cors.exposeHeaders.length > 0) headers['Access-Control-Expose-Headers'] = cors.exposeHeaders.join(', ')
+  return headers
+}
+
+/**
+ * Headers answering a preflight for a path serving `pathMethods`. Empty when
+ * the origin or the requested method isn't allowed, which the browser
+ * treats as a refusal.
+ */
+export function preflightHeaders(
+  cors: ResolvedCors | null,
+  origin: string,
+  requestMethod: string,
+  pathMethods: string[],
+): Record<string, string> {
+  if (!cors) return {}
+  const methods = cors.methods.length > 0 ? cors.methods : pathMethods
+  if (!methods.includes(requestMethod)) return {}
+  const headers = originHeaders(cors, origin)
+  if (!headers) return {}
+  headers['Access-Control-Allow-Methods'] = methods.join(', ')
+  if (cors.headers.length > 0) headers['Access-Control-Allow-Headers'] = cors.headers.join(', ')
+  headers['Access-Control-Max-Age'] = String(cors.maxAge)
+  return headers
+}
@@ -0,0 +1,120 @@
+/**
+ * In-process event bus for event features.
+ *
+ * Features publish named domain events with ctx.publish(). Every feature with
+ * `type: 'event'` whose `trigger` matches the event name runs asynchronously:
+ * publish() returns at once and dispatch starts on the next microtask, so an
+ * event feature can run while the publishing handler is still awaiting. The
+ * payload is normalized and validated against the event feature's input
+ * schema before its handle() runs.
+ *
+ * Failures (invalid payload, thrown error, fail() result) never reach the
+ * publisher. They are reported through `onError` as 'event-error' Spark events
+ * carrying the request id of the request that published the event.
+ */
+
+import { prepareInput } from './input'
+import { createResultHelpers } from './envelope'
+import { createUrlFor } from './urls'
+import type { FeatureDef, PublishFn } from './feature'
+import type { FeatureRegistry } from './scanner'
+import type { SparkEvent } from '../services/sparkDb'
+
+export interface EventBus {
+  /** Dispatches an event to every matching event feature. Returns immediately. */
+  publish(event: string, payload: Record<string, unknown> | undefined, requestId: string): void
+  /** Returns a ctx.publish function bound to the originating request id. */
+  publisherFor(requestId: string): PublishFn
+  /** Event features subscribed to an event name. */
+  subscribers(event: string): FeatureDef[]
+  /** Resolves once every dispatched event feature (including nested publishes) has finished. */
+  idle(): Promise<void>
+}
+
+export function createEventBus(
+  registry: FeatureRegistry,
+  options: { onError?: (event: SparkEvent) => void } = {},
+): EventBus {
+  const byTrigger = new Map<string, FeatureDef[]>()
+  const urlFor = createUrlFor(registry)
+
+  for (const feature of Object.values(registry)) {
+    if (feature.type !== 'event') continue
+    if (!feature.trigger) {
+      console.warn(`[manifest] Event feature '${feature.name}' has no trigger and will never run`)
+      continue
+    }
+    const list = byTrigger.get(feature.trigger) ?? []
+    list.push(feature)
+    byTrigger.set(feature.trigger, list)
+  }
+
+  const pending = new Set<Promise<void>>()
+
+  function report(feature: FeatureDef, event: string, requestId: string, message: string, extra: Partial<SparkEvent> = {}) {
+    if (!options.onError) return
+    try {
+      options.onError({
+        type: 'event-error',
+        traceId: requestId,
+        feature: feature.name,
+        route: `EVENT ${event}`,
+        error: { message },
+        ...extra,
+      })
+    } catch {}
+  }
+
+  async function run(feature: FeatureDef, event: string, payload: Record<string, unknown>, requestId: string) {
+    let input: Record<string, unknown> = payload
+    try {
+      const prepared = prepareInput(feature, payload)
+      input = prepared.input
+      if (Object.keys(prepared.errors).length > 0) {
+        report(feature, event, requestId, `Invalid payload: ${JSON.stringify(prepared.errors)}`, { status: 422, request: { input } })
+        return
+      }
+
+      const { ok, fail } = createResultHelpers()
+      const result = await feature.handle({ input, user: null, ok, fail, publish: bus.publisherFor(requestId), urlFor })
+      if (!result.success) {
+        report(feature, event, requestId, result.message, { status: result.status, request: { input } })
+      }
+    } catch (err) {
+      report(feature, event, requestId, err instanceof Error ? err.message : String(err), {
+        status: 500,
+        error: {
+          message: err instanceof Error ? err.message : String(err),
+          stack: err instanceof Error ? err.stack : undefined,
+        },
+        request: { input },
+      })
+    }
+  }
+
+  const bus: EventBus = {
+    publish(event, payload, requestId) {
+      for (const feature of byTrigger.get(event) ?? []) {
+        const task = Promise.resolve().then(() => run(feature, event, payload ?? {}, requestId))
+        pending.add(task)
+        task.finally(() => pending.delete(task))
+      }
+    },
+
+    publisherFor(requestId) {
+      return (event, payload) => bus.publish(event, payload, requestId)
+    },
+
+    subscribers(event) {
+      return byTrigger.get(event) ?? []
+    },
+
+    async idle() {
+      while (pending.size > 0) {
+        await Promise.all(pending)
+      }
+    },
+  }
+
+  return bus
+}
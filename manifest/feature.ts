@@ -1,5 +1,8 @@
-import type { InputSchemaDef } from './types'
+import type { InputSchemaDef, OutputSchemaDef, InferInput, InferCallInput, InputRule, UnknownFieldsPolicy } from './types'
+import type { AuthUser } from './auth'
 import type { RateLimitConfig } from '../services/rateLimiter'
+import type { UrlForFn } from './urls'
+import type { CorsOptions } from './cors'
 
 /**
  * Standard response envelope returned by feature handlers.
@@ -12,22 +15,35 @@ export interface FeatureResult {
   errors: Record<string, string>
 }
 
+/**
+ * Publishes a named domain event. Every event feature whose `trigger` matches
+ * runs asynchronously, starting on the next microtask: it may run while the
+ * current handler is still awaiting, so publish once the data it reads is saved.
+ */
+export type PublishFn = (event: string, payload?: Record<string, unknown>) => void
+
 /**
  * Context passed to a feature's handle() function.
- * Provides validated input and ok/fail response helpers.
+ * Provides validated input, the authenticated user, ok/fail response helpers,
+ * publish() for domain events and urlFor() to link to other features.
+ * `user` is always set for 'required' features and null for 'none' features.
  */
 export interface HandleContext<TInput = Record<string, unknown>> {
   input: TInput
+  user: AuthUser | null
   ok: (message: string, opts?: { data?: unknown; status?: number }) => FeatureResult
   fail: (message: string, status?: number) => FeatureResult
+  publish: PublishFn
+  urlFor: UrlForFn
 }
 
 export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
 
 /**
  * Options accepted by defineFeature(). Users pass this object to define a feature.
+ * `TInput` is inferred from the `input` schema (see InferInput).
  */
-export interface FeatureOptions<TInput = Record<string, unknown>> {
+export interface FeatureOptions<TInput = Record<string, unknown>, TSchema extends InputSchemaDef = InputSchemaDef> {
   name: string
   description: string
   route?: [HttpMethod, string]
@@ -37,14 +53,39 @@ export interface FeatureOptions<TInput = Record<string, unknown>> {
   sideEffects?: string[]
   errorCases?: string[]
   rateLimit?: RateLimitConfig
-  input: InputSchemaDef
+  input: TSchema
+  /** Cross-field rules, checked after every field is valid. Descriptions are published with the feature. */
+  validate?: InputRule<TInput>[]
+  /** Overrides the global `unknownFields` policy in config/manifest.ts. */
+  unknownFields?: UnknownFieldsPolicy
+  /** Shape of the `data` passed to ok(). Checked in debug mode, published with the feature. */
+  output?: OutputSchemaDef
+  /** Overrides the global CORS settings in config/manifest.ts; false turns CORS off. */
+  cors?: CorsOptions | false
+  /** Largest accepted JSON body in bytes. Overrides the global `maxBodySize` in config/manifest.ts. */
+  maxBodySize?: number
   handle: (ctx: HandleContext<TInput>) => Promise<FeatureResult>
 }
 
+/** Where the scanner found a feature. Set by scanFeatures() and scanAllFeatures(). */
+export interface FeatureSource {
+  /** File the feature was loaded from, relative to the working directory. */
+  _sourcePath?: string
+  /** Folder path under the features directory ('billing/invoices'); unset at the root. */
+  _namespace?: string
+  /** Extension the feature came from; unset for project features. */
+  _extension?: string
+  /** Source path of the extension feature this project feature replaces. */
+  _overrides?: string
+}
+
 /**
  * Resolved feature definition with all defaults applied.
+ * handle() uses method syntax so a FeatureDef with a narrow TInput still fits
+ * in a FeatureRegistry of FeatureDef<Record<string, unknown>>. `TSchema` keeps
+ * the input schema's literal type for FeatureCallInput.
  */
-export interface FeatureDef<TInput = Record<string, unknown>> {
+export interface FeatureDef<TInput = Record<string, unknown>, TSchema extends InputSchemaDef = InputSchemaDef> extends FeatureSource {
   name: string
   description: string
   route?: [HttpMethod, string]
@@ -54,8 +95,13 @@ export interface FeatureDef<TInput = Record<string, unknown>> {
   sideEffects: string[]
   errorCases: string[]
   rateLimit?: RateLimitConfig
-  input: InputSchemaDef
-  handle: (ctx: HandleContext<TInput>) => Promise<FeatureResult>
+  input: TSchema
+  validate: InputRule<TInput>[]
+  unknownFields?: UnknownFieldsPolicy
+  output?: OutputSchemaDef
+  cors?: CorsOptions | false
+  maxBodySize?: number
+  handle(ctx: HandleContext<TInput>): Promise<FeatureResult>
 }
 
 // --- Stream feature types ---
@@ -72,19 +118,23 @@ export interface EmitFn {
 
 /**
  * Context passed to a stream feature's stream() function.
- * Provides validated input and SSE control (emit, close, fail).
+ * Provides validated input, the authenticated user, SSE control (emit, close, fail),
+ * publish() for domain events and urlFor() to link to other features.
  */
 export interface StreamContext<TInput = Record<string, unknown>> {
   input: TInput
+  user: AuthUser | null
   emit: EmitFn
   close: () => void
   fail: (message: string) => void
+  publish: PublishFn
+  urlFor: UrlForFn
 }
 
 /**
  * Options for defining a stream feature. Uses stream() instead of handle().
  */
-export interface StreamFeatureOptions<TInput = Record<string, unknown>> {
+export interface StreamFeatureOptions<TInput = Record<string, unknown>, TSchema extends InputSchemaDef = InputSchemaDef> {
   name: string
   description: string
   route: [HttpMethod, string]
@@ -93,14 +143,22 @@ export interface StreamFeatureOptions<TInput = Record<string, unknown>> {
   sideEffects?: string[]
   errorCases?: string[]
   rateLimit?: RateLimitConfig
-  input: InputSchemaDef
+  input: TSchema
+  /** Cross-field rules, checked after every field is valid. Descriptions are published with the feature. */
+  validate?: InputRule<TInput>[]
+  /** Overrides the global `unknownFields` policy in config/manifest.ts. */
+  unknownFields?: UnknownFieldsPolicy
+  /** Overrides the global CORS settings in config/manifest.ts; false turns CORS off. */
+  cors?: CorsOptions | false
+  /** Largest accepted JSON body in bytes. Overrides the global `maxBodySize` in config/manifest.ts. */
+  maxBodySize?: number
   stream: (ctx: StreamContext<TInput>) => Promise<void>
 }
 
 /**
  * Resolved stream feature definition with all defaults applied.
  */
-export interface StreamFeatureDef<TInput = Record<string, unknown>> {
+export interface StreamFeatureDef<TInput = Record<string, unknown>, TSchema extends InputSchemaDef = InputSchemaDef> extends FeatureSource {
   name: string
   description: string
   route: [HttpMethod, string]
@@ -109,8 +167,12 @@ export interface StreamFeatureDef<TInput = Record<string, unknown>> {
   sideEffects: string[]
   errorCases: string[]
   rateLimit?: RateLimitConfig
-  input: InputSchemaDef
-  stream: (ctx: StreamContext<TInput>) => Promise<void>
+  input: TSchema
+  validate: InputRule<TInput>[]
+  unknownFields?: UnknownFieldsPolicy
+  cors?: CorsOptions | false
+  maxBodySize?: number
+  stream(ctx: StreamContext<TInput>): Promise<void>
 }
 
 /**
@@ -119,6 +181,29 @@ export interface StreamFeatureDef<TInput = Record<string, unknown>> {
  */
 export type AnyFeatureDef = FeatureDef | StreamFeatureDef
 
+/**
+ * The input type of a defined feature, e.g. `FeatureInput<typeof helloWorld>`.
+ */
+export type FeatureInput<F> =
+  F extends FeatureDef<infer TInput> ? TInput :
+  F extends StreamFeatureDef<infer TInput> ? TInput :
+  never
+
+/**
+ * The input a caller sends to a defined feature, before defaults and
+ * transforms: `FeatureCallInput<typeof helloWorld>`. See InferCallInput.
+ */
+export type FeatureCallInput<F> =
+  F extends { input: infer S extends InputSchemaDef } ? InferCallInput<S> : never
+
+/** Features that left `authentication` to the default, so a group can set it. */
+const defaultAuthentication = new WeakSet<AnyFeatureDef>()
+
+/** Whether a feature relies on the default `authentication: 'required'`. */
+export function usesDefaultAuthentication(feature: AnyFeatureDef): boolean {
+  return defaultAuthentication.has(feature)
+}
+
 /**
  * Define a feature. Takes a plain options object and returns a resolved
  * feature definition with defaults applied.
@@ -128,23 +213,27 @@ export type AnyFeatureDef = FeatureDef | StreamFeatureDef
  *   - authentication: 'required'
  *   - sideEffects: []
  *   - errorCases: []
+ *   - validate: []
  *
  * Accepts both request/event features (with handle()) and
  * stream features (with stream()). The returned type discriminates
  * on the `type` field.
+ *
+ * The handler's `input` type is inferred from the `t.*` schema: required
+ * fields are non-optional, optional fields are `T | undefined`.
  */
-export function defineFeature<TInput = Record<string, unknown>>(
-  opts: StreamFeatureOptions<TInput>,
-): StreamFeatureDef<TInput>
-export function defineFeature<TInput = Record<string, unknown>>(
-  opts: FeatureOptions<TInput>,
-): FeatureDef<TInput>
+export function defineFeature<TSchema extends InputSchemaDef>(
+  opts: StreamFeatureOptions<InferInput<TSchema>, TSchema>,
+): StreamFeatureDef<InferInput<TSchema>, TSchema>
+export function defineFeature<TSchema extends InputSchemaDef>(
+  opts: FeatureOptions<InferInput<TSchema>, TSchema>,
+): FeatureDef<InferInput<TSchema>, TSchema>
 export function defineFeature<TInput = Record<string, unknown>>(
   opts: FeatureOptions<TInput> | StreamFeatureOptions<TInput>,
 ): FeatureDef<TInput> | StreamFeatureDef<TInput> {
   if (opts.type === 'stream') {
     const streamOpts = opts as StreamFeatureOptions<TInput>
-    return {
+    const def: StreamFeatureDef<TInput> = {
       name: streamOpts.name,
       description: streamOpts.description,
       route: streamOpts.route,
@@ -154,12 +243,18 @@ export function defineFeature<TInput = Record<string, unknown>>(
       errorCases: streamOpts.errorCases ?? [],
       rateLimit: streamOpts.rateLimit,
       input: streamOpts.input,
+      validate: streamOpts.validate ?? [],
+      unknownFields: streamOpts.unknownFields,
+      cors: streamOpts.cors,
+      maxBodySize: streamOpts.maxBodySize,
       stream: streamOpts.stream,
     }
+    if (!streamOpts.authentication) defaultAuthentication.add(def as StreamFeatureDef)
+    return def
   }
 
   const reqOpts = opts as FeatureOptions<TInput>
-  return {
+  const def: FeatureDef<TInput> = {
     name: reqOpts.name,
     description: reqOpts.description,
     route: reqOpts.route,
@@ -170,6 +265,38 @@ export function defineFeature<TInput = Record<string, unknown>>(
     errorCases: reqOpts.errorCases ?? [],
     rateLimit: reqOpts.rateLimit,
     input: reqOpts.input,
+    validate: reqOpts.validate ?? [],
+    unknownFields: reqOpts.unknownFields,
+    output: reqOpts.output,
+    cors: reqOpts.cors,
+    maxBodySize: reqOpts.maxBodySize,
     handle: reqOpts.handle,
   }
+  if (!reqOpts.authentication) defaultAuthentication.add(def as FeatureDef)
+  return def
+}
+
+// --- Feature groups ---
+
+/**
+ * Defaults for every feature in a folder and its subfolders, exported from a
+ * `_group.ts` file in that folder. Nested groups stack: route prefixes are
+ * joined, and the innermost authentication and rate limit win.
+ */
+export interface GroupOptions {
+  /** Prepended to the route of every feature in the group, e.g. '/api/billing'. */
+  routePrefix?: string
+  /** Used by features that don't set `authentication` themselves. */
+  authentication?: 'none' | 'required' | 'optional'
+  /** Used by features that don't set `rateLimit` themselves. */
+  rateLimit?: RateLimitConfig
+}
+
+/**
+ * Define folder defaults. Default-export the result from `_group.ts`:
+ *
+ *   export default defineGroup({ routePrefix: '/api/billing', authentication: 'required' })
+ */
+export function defineGroup(opts: GroupOptions): GroupOptions {
+  return opts
 }
@@ -1,5 +1,8 @@
 import path from 'path'
 import fs from 'fs'
+import { writeApiClient, DEFAULT_API_CLIENT_PATH } from './apiClient'
+import { featureDirs } from './reload'
+import { createNonce, injectNonce, securityHeaders } from './security'
 
 interface FrontendConfig {
   entryPoint: string
@@ -11,6 +14,7 @@ interface FrontendConfig {
   bundleCss?: boolean
   postBuild?: string
   watchDirs?: string[]
+  apiClient?: string | false
 }
 
 export interface BuildResult {
@@ -33,6 +37,15 @@ function copyPublicDir(projectDir: string, outDir: string) {
 
 export async function buildFrontend(projectDir: string): Promise<BuildResult> {
   const config = await loadConfig(projectDir)
+
+  // Typed API client for the frontend, generated from the features
+  if (config.apiClient !== false) {
+    try {
+      await writeApiClient(projectDir, config.apiClient ?? DEFAULT_API_CLIENT_PATH)
+    } catch (err) {
+      console.error('[frontend] API client generation failed:', err instanceof Error ? err.message : err)
+    }
+  }
   const outDir = path.resolve(projectDir, config.outputDir)
   const entryPoint = path.resolve(projectDir, config.entryPoint)
   const isProd = process.env.NODE_ENV === 'production'
@@ -149,6 +162,14 @@ export async function watchFrontend(projectDir: string, onRebuild?: () => void)
     scheduleRebuild()
   })
 
+  // Feature changes (features/ and extension features) regenerate the API
+  // client, which is part of every build
+  if (config.apiClient !== false) {
+    for (const dir of featureDirs(projectDir)) {
+      fs.watch(dir, { recursive: true }, () => scheduleRebuild())
+    }
+  }
+
   for (const dir of config.watchDirs ?? []) {
     const watchDir = path.resolve(projectDir, dir)
     if (fs.existsSync(watchDir)) {
@@ -165,9 +186,23 @@ function isFile(filePath: string): boolean {
   }
 }
 
-export function createStaticHandler(distDir: string, options: { spaFallback: boolean }) {
+/**
+ * Serves files from dist/. With `nonce`, every HTML response gets a fresh
+ * nonce on its <script> and <style> tags and the security headers carrying
+ * the matching Content-Security-Policy (see manifest/security.ts).
+ */
+export function createStaticHandler(distDir: string, options: { spaFallback: boolean; nonce?: boolean }) {
   const resolvedDistDir = path.resolve(distDir)
 
+  const serveHtml = (filePath: string): Response => {
+    const headers: Record<string, string> = { 'Cache-Control': 'no-cache' }
+    if (!options.nonce) return new Response(Bun.file(filePath), { headers })
+    const nonce = createNonce()
+    const html = injectNonce(fs.readFileSync(filePath, 'utf8'), nonce)
+    const contentType = 'text/html; charset=utf-8'
+    return new Response(html, { headers: { ...headers, 'Content-Type': contentType, ...securityHeaders(contentType, nonce) } })
+  }
+
   return (pathname: string): Response | null => {
     // Never serve hidden files
     if (pathname.split('/').some((s) => s.startsWith('.'))) return null
@@ -181,6 +216,7 @@ export function createStaticHandler(distDir: string, options: { spaFallback: boo
     if (!filePath.startsWith(resolvedDistDir + '/') && filePath !== resolvedDistDir) return null
 
     if (isFile(filePath)) {
+      if (filePath.endsWith('.html')) return serveHtml(filePath)
       const file = Bun.file(filePath)
       const headers: Record<string, string> = { 'Cache-Control': 'no-cache' }
       const mimeType = file.type
@@ -192,15 +228,11 @@ export function createStaticHandler(distDir: string, options: { spaFallback: boo
 
     // Directory → index.html resolution
     const indexFilePath = path.join(filePath, 'index.html')
-    if (isFile(indexFilePath)) {
-      return new Response(Bun.file(indexFilePath), { headers: { 'Cache-Control': 'no-cache' } })
-    }
+    if (isFile(indexFilePath)) return serveHtml(indexFilePath)
 
     if (options.spaFallback) {
       const indexPath = path.join(distDir, 'index.html')
-      if (isFile(indexPath)) {
-        return new Response(Bun.file(indexPath), { headers: { 'Cache-Control': 'no-cache' } })
-      }
+      if (isFile(indexPath)) return serveHtml(indexPath)
     }
 
     return null
@@ -7,23 +7,54 @@
  * This file re-exports everything a feature needs.
  */
 
-export { defineFeature } from './feature'
-export type { FeatureDef, FeatureResult, HandleContext, FeatureOptions, StreamFeatureDef, StreamFeatureOptions, StreamContext, EmitFn, AnyFeatureDef } from './feature'
+export { defineFeature, defineGroup } from './feature'
+export type { GroupOptions, FeatureDef, FeatureResult, HandleContext, FeatureOptions, StreamFeatureDef, StreamFeatureOptions, StreamContext, EmitFn, PublishFn, AnyFeatureDef, FeatureInput, FeatureCallInput, FeatureSource } from './feature'
 
 export { t } from './types'
-export type { FieldDef, InputSchemaDef, StringFieldDef, IntegerFieldDef, NumberFieldDef, BooleanFieldDef, ArrayFieldDef } from './types'
+export type { FieldDef, InputSchemaDef, StringFieldDef, IntegerFieldDef, NumberFieldDef, BooleanFieldDef, ArrayFieldDef, ObjectFieldDef, EnumFieldDef, LiteralFieldDef, UnionFieldDef, LiteralValue, OutputSchemaDef, InferInput, InferCallInput, FieldValue, FieldCallValue, FieldRule, InputRule, UnknownFieldsPolicy } from './types'
 
-export { validateInput } from './validator'
+export { validateInput, validateOutput } from './validator'
+export type { ValidationErrors } from './validator'
 
-export { createRouter } from './router'
-export type { Router, MatchResult } from './router'
+export { coerceInput } from './coerce'
+export { normalizeInput } from './normalize'
+
+export { toJsonSchema, fromJsonSchema } from './jsonSchema'
+export type { JsonSchema } from './jsonSchema'
+
+export { urlFor, createUrlFor } from './urls'
+export type { UrlForFn, UrlParams, UrlQuery } from './urls'
+
+export { createEventBus } from './events'
+export type { EventBus } from './events'
+
+export { bearerToken, apiKey, sessionCookie, chainAuthenticators, signSession, verifySession } from './auth'
+export type { AuthUser, Authenticator, AuthenticationMode } from './auth'
+
+export { createRouter, parseRoute, expandRoute } from './router'
+export type { Router, MatchResult, RouteSegment } from './router'
 
 export { scanFeatures, scanAllFeatures } from './scanner'
-export type { FeatureRegistry } from './scanner'
+export type { FeatureRegistry, ScanOptions } from './scanner'
+
+export { diffRoutes, watchFeatures } from './reload'
+export type { RouteChange } from './reload'
 
 export { toEnvelope, createResultHelpers } from './envelope'
 export type { ResponseEnvelope } from './envelope'
 
+export { generateOpenApi } from './openapi'
+export type { OpenApiDocument, OpenApiOptions } from './openapi'
+
+export { createMcpHandler, handleMcpHttp, serveMcpStdio, featureToTool } from './mcp'
+export type { McpHandler, McpOptions, McpTool, McpToolResult, McpCallContext } from './mcp'
+
+export { checkRegistry, formatIssue } from './check'
+export type { CheckIssue, CheckCode } from './check'
+
+export { describeRegistry, describeFeature } from './introspect'
+export type { ManifestDescription, FeatureDescription, FeatureOverride } from './introspect'
+
 export { createManifestServer } from './server'
 export type { ManifestServer, ManifestServerOptions } from './server'
 
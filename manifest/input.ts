@@ -0,0 +1,27 @@
+/**
+ * The input step every entry point shares: the HTTP server, MCP tools, the
+ * event bus and the test client. Applies the feature's unknown fields policy
+ * (or the global one in config/manifest.ts), then normalizeInput() and
+ * validateInput() with the feature's cross-field rules.
+ */
+
+import { normalizeInput } from './normalize'
+import { validateInput, type ValidationErrors } from './validator'
+import type { AnyFeatureDef } from './feature'
+import manifestConfig from '../config/manifest'
+
+/**
+ * Normalizes and validates raw input for a feature. `allowKeys` (e.g. path
+ * params) pass the unknown fields policy even when undeclared.
+ */
+export function prepareInput(
+  feature: AnyFeatureDef,
+  data: Record<string, unknown>,
+  options: { allowKeys?: readonly string[] } = {},
+): { input: Record<string, unknown>; errors: ValidationErrors } {
+  const unknownFields = feature.unknownFields ?? manifestConfig.unknownFields
+  const { allowKeys } = options
+  const input = normalizeInput(feature.input, data, { unknownFields, allowKeys })
+  const errors = validateInput(feature.input, input, { unknownFields, allowKeys, rules: feature.validate })
+  return { input, errors }
+}
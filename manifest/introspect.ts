@@ -0,0 +1,87 @@
+/**
+ * Describes the running app for agents: every loaded feature with its
+ * metadata, where it was loaded from, and the extension features the project
+ * overrides. Served as JSON at /__manifest (see server.ts).
+ *
+ * Schemas are serialized as plain field definitions. refine and validate
+ * rules keep their description and code; their check functions are dropped.
+ */
+
+import type { AnyFeatureDef, HttpMethod } from './feature'
+import type { FieldDef } from './types'
+import type { FeatureRegistry } from './scanner'
+import type { RateLimitConfig } from '../services/rateLimiter'
+
+export interface FeatureDescription {
+  name: string
+  description: string
+  type: 'request' | 'event' | 'stream'
+  route: [HttpMethod, string] | null
+  trigger: string | null
+  authentication: 'none' | 'required' | 'optional'
+  rateLimit: RateLimitConfig | null
+  sideEffects: string[]
+  errorCases: string[]
+  input: Record<string, FieldDef>
+  output: Record<string, FieldDef> | null
+  rules: string[]
+  unknownFields: string | null
+  sourcePath: string | null
+  /** Folder path under features/, e.g. 'billing/invoices'. Null at the root. */
+  namespace: string | null
+  /** 'project', or the extension directory the feature came from. */
+  origin: { kind: 'project' } | { kind: 'extension'; extension: string }
+}
+
+export interface FeatureOverride {
+  feature: string
+  project: string | null
+  extension: string
+}
+
+export interface ManifestDescription {
+  app: { name: string; version: string }
+  features: FeatureDescription[]
+  overrides: FeatureOverride[]
+}
+
+/** Field definitions as JSON: functions (refine checks) are dropped. */
+function plainSchema(schema: Record<string, FieldDef>): Record<string, FieldDef> {
+  return JSON.parse(JSON.stringify(schema))
+}
+
+export function describeFeature(feature: AnyFeatureDef): FeatureDescription {
+  return {
+    name: feature.name,
+    description: feature.description,
+    type: feature.type,
+    route: feature.route ?? null,
+    trigger: (feature.type !== 'stream' && feature.trigger) || null,
+    authentication: feature.authentication,
+    rateLimit: feature.rateLimit ?? null,
+    sideEffects: feature.sideEffects,
+    errorCases: feature.errorCases,
+    input: plainSchema(feature.input),
+    output: feature.type !== 'stream' && feature.output ? plainSchema(feature.output) : null,
+    rules: feature.validate.map((rule) => rule.description),
+    unknownFields: feature.unknownFields ?? null,
+    sourcePath: feature._sourcePath ?? null,
+    namespace: feature._namespace ?? null,
+    origin: feature._extension ? { kind: 'extension', extension: feature._extension } : { kind: 'project' },
+  }
+}
+
+/**
+ * Describes every feature in a registry (as returned by scanAllFeatures()),
+ * sorted by name, plus the extension features overridden by the project.
+ */
+export function describeRegistry(registry: FeatureRegistry, app: { name: string; version: string }): ManifestDescription {
+  const features = Object.values(registry).sort((a, b) => a.name.localeCompare(b.name))
+  const overrides: FeatureOverride[] = []
+  for (const feature of features) {
+    if (feature._overrides) {
+      overrides.push({ feature: feature.name, project: feature._sourcePath ?? null, extension: feature._overrides })
+    }
+  }
+  return { app, features: features.map(describeFeature), overrides }
+}
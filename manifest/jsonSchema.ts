@@ -0,0 +1,291 @@
+/**
+ * Converts between input schemas and JSON Schema (draft 2020-12).
+ *
+ *   toJsonSchema(feature.input)   → an object schema for LLM tool-calling,
+ *                                   form generators or external validators
+ *   fromJsonSchema(schemaFile)    → an InputSchemaDef for defineFeature()
+ *
+ * Mapping:
+ *   t.string()   ↔ { type: 'string' } with minLength, maxLength, pattern and
+ *                  format (url ↔ 'uri', datetime ↔ 'date-time')
+ *   t.integer()  ↔ { type: 'integer' } with minimum, maximum
+ *   t.number()   ↔ { type: 'number' } with minimum, maximum
+ *   t.boolean()  ↔ { type: 'boolean' }
+ *   t.array()    ↔ { type: 'array' } with items, minItems, maxItems
+ *   t.object()   ↔ { type: 'object' } with properties and required
+ *   t.enum()     ↔ { enum: [...] }
+ *   t.literal()  ↔ { const: ... }
+ *   t.union()    ↔ oneOf when discriminated, anyOf otherwise
+ *
+ * Descriptions and defaults carry over both ways. Fields with a default are
+ * not listed in `required`, since the client may leave them out. refine rules,
+ * trim, lowercase and toDate have no JSON Schema equivalent and are dropped.
+ */
+
+import type { FieldDef, InputSchemaDef, StringFieldDef, UnknownFieldsPolicy } from './types'
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema'
+
+/**
+ * A JSON Schema object. Only the keywords the converters read are typed.
+ */
+export interface JsonSchema {
+  $schema?: string
+  type?: string | string[]
+  description?: string
+  title?: string
+  default?: unknown
+  format?: string
+  pattern?: string
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  items?: JsonSchema
+  minItems?: number
+  maxItems?: number
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  enum?: unknown[]
+  const?: unknown
+  oneOf?: JsonSchema[]
+  anyOf?: JsonSchema[]
+  [keyword: string]: unknown
+}
+
+const TO_JSON_FORMAT: Record<NonNullable<StringFieldDef['format']>, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  date: 'date',
+  datetime: 'date-time',
+}
+
+const FROM_JSON_FORMAT: Record<string, StringFieldDef['format']> = {
+  email: 'email',
+  uri: 'url',
+  url: 'url',
+  uuid: 'uuid',
+  date: 'date',
+  'date-time': 'datetime',
+}
+
+const SCALAR_ITEM_TYPES = new Set(['string', 'integer', 'number', 'boolean'])
+
+// --- toJsonSchema ---
+
+function objectToJsonSchema(fields: Record<string, FieldDef>, unknownFields: UnknownFieldsPolicy): JsonSchema {
+  const properties: Record<string, JsonSchema> = {}
+  const required: string[] = []
+  for (const [name, field] of Object.entries(fields)) {
+    properties[name] = fieldToJsonSchema(field, unknownFields)
+    if (field.required && field.default === undefined) required.push(name)
+  }
+  return {
+    type: 'object',
+    properties,
+    ...(required.length > 0 && { required }),
+    ...(unknownFields === 'reject' && { additionalProperties: false }),
+  }
+}
+
+function fieldToJsonSchema(field: FieldDef, unknownFields: UnknownFieldsPolicy): JsonSchema {
+  let schema: JsonSchema
+  switch (field.type) {
+    case 'string':
+      schema = {
+        type: 'string',
+        ...(field.format !== undefined && { format: TO_JSON_FORMAT[field.format] }),
+        ...(field.pattern !== undefined && { pattern: field.pattern }),
+        ...(field.minLength !== undefined && { minLength: field.minLength }),
+        ...(field.maxLength !== undefined && { maxLength: field.maxLength }),
+      }
+      break
+    case 'integer':
+    case 'number':
+      schema = {
+        type: field.type,
+        ...(field.min !== undefined && { minimum: field.min }),
+        ...(field.max !== undefined && { maximum: field.max }),
+      }
+      break
+    case 'boolean':
+      schema = { type: 'boolean' }
+      break
+    case 'array': {
+      const items = field.items
+        ? fieldToJsonSchema(field.items, unknownFields)
+        : SCALAR_ITEM_TYPES.has(field.itemType) ? { type: field.itemType } : undefined
+      schema = {
+        type: 'array',
+        ...(items !== undefined && { items }),
+        ...(field.minItems !== undefined && { minItems: field.minItems }),
+        ...(field.maxItems !== undefined && { maxItems: field.maxItems }),
+      }
+      break
+    }
+    case 'object':
+      schema = objectToJsonSchema(field.fields, unknownFields)
+      break
+    case 'enum':
+      schema = { enum: [...field.values] }
+      break
+    case 'literal':
+      schema = { const: field.value }
+      break
+    case 'union': {
+      const variants = field.variants.map((v) => fieldToJsonSchema(v, unknownFields))
+      schema = field.discriminator ? { oneOf: variants } : { anyOf: variants }
+      break
+    }
+  }
+  return {
+    ...(field.description && { description: field.description }),
+    ...schema,
+    ...(field.default !== undefined && { default: field.default }),
+  }
+}
+
+/**
+ * Converts an input schema to a JSON Schema object schema. With
+ * `unknownFields: 'reject'`, objects get `additionalProperties: false`.
+ * Pass `dialect: false` to leave out `$schema`, e.g. when embedding the
+ * result in another document.
+ */
+export function toJsonSchema(
+  schema: InputSchemaDef,
+  options: { unknownFields?: UnknownFieldsPolicy; dialect?: boolean } = {},
+): JsonSchema {
+  return {
+    ...(options.dialect !== false && { $schema: JSON_SCHEMA_DIALECT }),
+    ...objectToJsonSchema(schema, options.unknownFields ?? 'allow'),
+  }
+}
+
+// --- fromJsonSchema ---
+
+function unsupported(path: string, reason: string): Error {
+  return new Error(`fromJsonSchema(): ${reason} at ${path || '(root)'}`)
+}
+
+/** The schema's type, ignoring 'null' in type arrays like ['string', 'null']. */
+function typeOf(schema: JsonSchema): string | undefined {
+  if (Array.isArray(schema.type)) return schema.type.find((t) => t !== 'null')
+  if (schema.type !== undefined) return schema.type
+  if (schema.properties) return 'object'
+  return undefined
+}
+
+/**
+ * The property every variant pins to a different const (or enum values no
+ * other variant allows), if there is one. A property pinned to the same
+ * value in two variants, like a shared `version`, can't tell them apart.
+ */
+function findDiscriminator(variants: JsonSchema[]): string | undefined {
+  const first = variants[0]?.properties
+  if (!first) return undefined
+  return Object.keys(first).find((key) => {
+    const seen = new Set<unknown>()
+    return variants.every((v) => {
+      const property = v.properties?.[key]
+      const values = property?.const !== undefined ? [property.const] : property?.enum
+      if (!values) return false
+      for (const value of values) {
+        if (seen.has(value)) return false
+        seen.add(value)
+      }
+      return true
+    })
+  })
+}
+
+function isLiteral(value: unknown): value is string | number | boolean {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean'
+}
+
+function objectFromJsonSchema(schema: JsonSchema, path: string): Record<string, FieldDef> {
+  const required = new Set(schema.required ?? [])
+  const fields: Record<string, FieldDef> = {}
+  for (const [name, property] of Object.entries(schema.properties ?? {})) {
+    fields[name] = fieldFromJsonSchema(property, required.has(name), path ? `${path}.${name}` : name)
+  }
+  return fields
+}
+
+function fieldFromJsonSchema(schema: JsonSchema, required: boolean, path: string): FieldDef {
+  const base = {
+    description: schema.description ?? schema.title ?? '',
+    required,
+    ...(schema.default !== undefined && { default: schema.default }),
+  }
+
+  if (schema.const !== undefined) {
+    if (!isLiteral(schema.const)) throw unsupported(path, 'const must be a string, number or boolean')
+    return { ...base, type: 'literal', value: schema.const }
+  }
+  if (schema.enum !== undefined) {
+    const values = schema.enum
+    if (!values.every((v) => typeof v === 'string' || typeof v === 'number')) {
+      throw unsupported(path, 'enum values must be strings or numbers')
+    }
+    return { ...base, type: 'enum', values: values as (string | number)[] }
+  }
+  const choices = schema.oneOf ?? schema.anyOf
+  if (choices !== undefined) {
+    const variants = choices.map((v, i) => fieldFromJsonSchema(v, true, `${path}.${i}`))
+    const discriminator = schema.oneOf ? findDiscriminator(choices) : undefined
+    return { ...base, type: 'union', ...(discriminator !== undefined && { discriminator }), variants }
+  }
+
+  const type = typeOf(schema)
+  switch (type) {
+    case 'string': {
+      const format = schema.format !== undefined ? FROM_JSON_FORMAT[schema.format] : undefined
+      return {
+        ...base,
+        type: 'string',
+        ...(format !== undefined && { format }),
+        ...(schema.pattern !== undefined && { pattern: schema.pattern }),
+        ...(schema.minLength !== undefined && { minLength: schema.minLength }),
+        ...(schema.maxLength !== undefined && { maxLength: schema.maxLength }),
+      }
+    }
+    case 'integer':
+    case 'number':
+      return {
+        ...base,
+        type,
+        ...(schema.minimum !== undefined && { min: schema.minimum }),
+        ...(schema.maximum !== undefined && { max: schema.maximum }),
+      }
+    case 'boolean':
+      return { ...base, type: 'boolean' }
+    case 'array': {
+      const items = schema.items ? fieldFromJsonSchema(schema.items, true, `${path}.items`) : undefined
+      return {
+        ...base,
+        type: 'array',
+        itemType: items?.type ?? 'unknown',
+        ...(items !== undefined && { items }),
+        ...(schema.minItems !== undefined && { minItems: schema.minItems }),
+        ...(schema.maxItems !== undefined && { maxItems: schema.maxItems }),
+      }
+    }
+    case 'object':
+      return { ...base, type: 'object', fields: objectFromJsonSchema(schema, path) }
+    default:
+      throw unsupported(path, type ? `unsupported type '${type}'` : 'missing type')
+  }
+}
+
+/**
+ * Converts a JSON Schema object schema to an input schema. Properties listed
+ * in `required` become required fields. Throws on schemas with no field
+ * equivalent: a property without a `type` (a `$ref` is not resolved, so it
+ * fails this way), a `type` like 'null', or non-literal enum values.
+ */
+export function fromJsonSchema(schema: JsonSchema): InputSchemaDef {
+  if (typeOf(schema) !== 'object') throw unsupported('', 'expected an object schema')
+  return objectFromJsonSchema(schema, '')
+}
@@ -0,0 +1,393 @@
+/**
+ * Model Context Protocol server. Lists every request and stream feature as
+ * a tool so coding agents can call features directly.
+ *
+ *   - tool name: the feature name
+ *   - tool description: description, side effects, rules and error cases
+ *   - tool input schema: toJsonSchema(feature.input)
+ *   - tool output schema: the response envelope, `data` typed by the
+ *     feature's `output` schema (features that declare one)
+ *
+ * Tool calls run through the pipeline HTTP calls use (see call.ts): rate
+ * limit (keyed by the caller), authentication (the authenticator reads the
+ * request headers), prepareInput(), the access log and the debug-mode output
+ * check. Results are the response envelope the HTTP API would return. Stream
+ * features send each emitted event as a progress notification when the
+ * caller passes a progressToken, and return every event at the end.
+ *
+ * Transports:
+ *   - stdio: serveMcpStdio(), run with `bun run mcp`
+ *   - HTTP:  POST /__mcp on the Manifest server, when `mcpHttp` is on in
+ *            config/manifest.ts
+ */
+
+import path from 'path'
+import { scanAllFeatures, type FeatureRegistry } from './scanner'
+import { createCallHandler, elapsed, type CallContext, type CallOutcome } from './call'
+import { isJsonContentType, readJsonBody, unsupportedContentType } from './body'
+import { createUrlFor } from './urls'
+import type { AuthUser, Authenticator } from './auth'
+import { createEventBus, type EventBus } from './events'
+import type { ResponseEnvelope } from './envelope'
+import { toJsonSchema, type JsonSchema } from './jsonSchema'
+import { envelopeSchema } from './openapi'
+import type { AnyFeatureDef, EmitFn, StreamFeatureDef } from './feature'
+import { sparkDb, type AccessLog, type SparkEvent } from '../services/sparkDb'
+import manifestConfig from '../config/manifest'
+import sparkConfig from '../config/spark'
+
+export const MCP_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05']
+
+type JsonRpcId = string | number | null
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0'
+  id: JsonRpcId
+  result?: unknown
+  error?: { code: number; message: string; data?: unknown }
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0'
+  method: string
+  params?: Record<string, unknown>
+}
+
+export interface McpTool {
+  name: string
+  description: string
+  inputSchema: JsonSchema
+  /** The structuredContent envelope, for features that declare `output`. */
+  outputSchema?: JsonSchema
+}
+
+export interface McpToolResult {
+  content: { type: 'text'; text: string }[]
+  structuredContent: ResponseEnvelope
+  isError: boolean
+}
+
+export interface McpOptions {
+  registry: FeatureRegistry
+  authenticate?: Authenticator
+  /** Bus for ctx.publish(). Defaults to a new bus over `registry`. */
+  events?: EventBus
+  /** Receives 'server-error', 'rate-limit', 'output-mismatch' and event bus failures. */
+  onEvent?: (event: SparkEvent) => void
+  /** Receives an access log entry per tool call, like HTTP calls. */
+  onAccess?: (entry: AccessLog) => void
+  serverInfo?: { name: string; version: string }
+}
+
+/** Per-connection details for a call. */
+export interface McpCallContext {
+  /** The request the authenticator reads. Synthetic for stdio. */
+  req: Request
+  /** Identifies the caller for rate limiting, e.g. the client IP. */
+  clientKey: string
+  /** Sends a notification (e.g. progress) to the caller. */
+  notify(notification: JsonRpcNotification): void
+}
+
+export interface McpHandler {
+  tools(): McpTool[]
+  /** Handles one JSON-RPC message. Returns null for notifications. */
+  handle(message: unknown, ctx: McpCallContext): Promise<JsonRpcResponse | null>
+}
+
+const PARSE_ERROR = -32700
+const INVALID_REQUEST = -32600
+const METHOD_NOT_FOUND = -32601
+const INVALID_PARAMS = -32602
+const INTERNAL_ERROR = -32603
+
+/** An incoming JSON-RPC message before it is checked. */
+interface JsonRpcMessage {
+  jsonrpc?: unknown
+  id?: JsonRpcId
+  method?: unknown
+  params?: Record<string, any>
+}
+
+function asMessage(value: unknown): JsonRpcMessage {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value : {}
+}
+
+function rpcError(id: JsonRpcId, code: number, message: string): JsonRpcResponse {
+  return { jsonrpc: '2.0', id, error: { code, message } }
+}
+
+function bulletList(title: string, items: string[]): string {
+  return items.length > 0 ? `\n\n${title}:\n${items.map((item) => `- ${item}`).join('\n')}` : ''
+}
+
+/**
+ * Describes a feature as an MCP tool.
+ */
+export function featureToTool(feature: AnyFeatureDef): McpTool {
+  const description =
+    feature.description.replace(/\s+/g, ' ').trim() +
+    bulletList('Side effects', feature.sideEffects) +
+    bulletList('Rules', feature.validate.map((rule) => rule.description)) +
+    bulletList('Error cases', feature.errorCases) +
+    (feature.type === 'stream' ? '\n\nStreams its output. Pass a progressToken to receive each event as a progress notification.' : '')
+  return {
+    name: feature.name,
+    description,
+    inputSchema: toJsonSchema(feature.input, { dialect: false, unknownFields: feature.unknownFields }),
+    ...(feature.type !== 'stream' && feature.output && { outputSchema: envelopeSchema(toJsonSchema(feature.output, { dialect: false })) }),
+  }
+}
+
+function toolResult(envelope: ResponseEnvelope, isError: boolean): McpToolResult {
+  return { content: [{ type: 'text', text: JSON.stringify(envelope) }], structuredContent: envelope, isError }
+}
+
+export function createMcpHandler(options: McpOptions): McpHandler {
+  const { registry } = options
+  const events = options.events ?? createEventBus(registry, { onError: options.onEvent })
+  const serverInfo = options.serverInfo ?? { name: manifestConfig.appName, version: '0.0.0' }
+  const urlFor = createUrlFor(registry)
+
+  function report(event: SparkEvent) {
+    try { options.onEvent?.(event) } catch {}
+  }
+
+  // The pipeline HTTP calls use: rate limit (keyed by clientKey), auth, input, handle
+  const handleCall = createCallHandler({
+    authenticate: options.authenticate,
+    log: {
+      access(entry) {
+        try { options.onAccess?.(entry) } catch {}
+      },
+      event: report,
+    },
+  })
+
+  function callable(): AnyFeatureDef[] {
+    return Object.values(registry).filter((f) => f.type !== 'event')
+  }
+
+  async function runStream(
+    feature: StreamFeatureDef,
+    input: Record<string, unknown>,
+    user: AuthUser | null,
+    requestId: string,
+    progressToken: string | number | undefined,
+    ctx: McpCallContext,
+  ): Promise<{ events: { event?: string; data: unknown }[]; failure: string | null }> {
+    const emitted: { event?: string; data: unknown }[] = []
+    let closed = false
+    let failure: string | null = null
+
+    const emit: EmitFn = (...args: unknown[]) => {
+      if (closed) return
+      const entry = args.length === 2 ? { event: args[0] as string, data: args[1] } : { data: args[0] }
+      emitted.push(entry)
+      if (progressToken === undefined) return
+      const text = typeof entry.data === 'string' ? entry.data : JSON.stringify(entry.data)
+      ctx.notify({
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { progressToken, progress: emitted.length, message: entry.event ? `${entry.event}: ${text}` : text },
+      })
+    }
+
+    await feature.stream({
+      input,
+      user,
+      emit,
+      close: () => { closed = true },
+      fail: (message) => {
+        failure = message
+        closed = true
+      },
+      publish: events.publisherFor(requestId),
+      urlFor,
+    })
+    return { events: emitted, failure }
+  }
+
+  async function callTool(feature: AnyFeatureDef, args: Record<string, unknown>, progressToken: string | number | undefined, ctx: McpCallContext): Promise<McpToolResult> {
+    const call: CallContext = {
+      req: ctx.req, method: ctx.req.method, path: new URL(ctx.req.url).pathname, route: `MCP ${feature.name}`,
+      ip: ctx.clientKey, requestId: Bun.randomUUIDv7(), start: performance.now(), events, urlFor,
+    }
+    let streamFailed = false
+    const outcome = await handleCall(feature, call, async () => ({ input: { ...args } }), {
+      runStream: async (stream, input, user) => {
+        const { events: emitted, failure } = await runStream(stream, input, user, call.requestId, progressToken, ctx)
+        streamFailed = failure !== null
+        const meta = { feature: stream.name, request_id: call.requestId, duration_ms: elapsed(call.start) }
+        return { status: 200, body: { status: 200, message: failure ?? 'Stream completed', data: { events: emitted }, meta } }
+      },
+    }) as CallOutcome
+    return toolResult(outcome.body as ResponseEnvelope, outcome.status >= 400 || streamFailed)
+  }
+
+  return {
+    tools() {
+      return callable().map(featureToTool)
+    },
+
+    async handle(message, ctx) {
+      if (!message || typeof message !== 'object' || Array.isArray(message)) {
+        return rpcError(null, INVALID_REQUEST, 'Invalid request')
+      }
+      const msg = message as JsonRpcMessage
+      const isNotification = !('id' in msg)
+      const id = msg.id ?? null
+      if (msg.jsonrpc !== '2.0' || typeof msg.method !== 'string') {
+        // Responses from the client (e.g. to pings) need no answer
+        return isNotification || 'result' in msg || 'error' in msg ? null : rpcError(id, INVALID_REQUEST, 'Invalid request')
+      }
+      if (isNotification) return null
+
+      const params = msg.params ?? {}
+      switch (msg.method) {
+        case 'initialize': {
+          const requested = params.protocolVersion
+          return {
+            jsonrpc: '2.0',
+            id,
+            result: {
+              protocolVersion: MCP_PROTOCOL_VERSIONS.includes(requested) ? requested : MCP_PROTOCOL_VERSIONS[0],
+              capabilities: { tools: { listChanged: false } },
+              serverInfo,
+            },
+          }
+        }
+        case 'ping':
+          return { jsonrpc: '2.0', id, result: {} }
+        case 'tools/list':
+          return { jsonrpc: '2.0', id, result: { tools: callable().map(featureToTool) } }
+        case 'tools/call': {
+          const feature = typeof params.name === 'string' ? registry[params.name] : undefined
+          if (!feature || feature.type === 'event') {
+            return rpcError(id, INVALID_PARAMS, `Unknown tool: ${params.name}`)
+          }
+          const args = params.arguments && typeof params.arguments === 'object' ? params.arguments : {}
+          const result = await callTool(feature, args, params._meta?.progressToken, ctx)
+          return { jsonrpc: '2.0', id, result }
+        }
+        default:
+          return rpcError(id, METHOD_NOT_FOUND, `Method not found: ${msg.method}`)
+      }
+    },
+  }
+}
+
+/** handler.handle(), answering a message that throws with an internal error instead of rejecting. */
+async function handleSafely(handler: McpHandler, message: unknown, ctx: McpCallContext): Promise<JsonRpcResponse | null> {
+  try {
+    return await handler.handle(message, ctx)
+  } catch (err) {
+    console.error('[manifest] MCP message failed:', err)
+    const msg = asMessage(message)
+    return 'id' in msg ? rpcError(msg.id ?? null, INTERNAL_ERROR, 'Internal error') : null
+  }
+}
+
+/**
+ * Handles a request to the HTTP transport (POST only). Tool calls with a
+ * progressToken answer with an SSE stream of progress notifications followed
+ * by the response; everything else answers with JSON. Bodies must be JSON
+ * (415 otherwise) within `maxBodySize` (413 otherwise), like /__rpc.
+ */
+export async function handleMcpHttp(handler: McpHandler, req: Request, clientKey: string): Promise<Response> {
+  if (req.method !== 'POST') {
+    return Response.json({ status: 405, message: 'Method not allowed' }, { status: 405, headers: { Allow: 'POST' } })
+  }
+
+  const contentType = req.headers.get('content-type')
+  const read = isJsonContentType(contentType)
+    ? await readJsonBody(req, manifestConfig.maxBodySize)
+    : unsupportedContentType(contentType)
+  if (!('body' in read)) {
+    if (read.status === 400) return Response.json(rpcError(null, PARSE_ERROR, 'Parse error'), { status: 400 })
+    return Response.json(read, { status: read.status })
+  }
+  const message = read.body
+  const msg = asMessage(message)
+
+  if (msg.method !== 'tools/call' || msg.params?._meta?.progressToken === undefined) {
+    const response = await handleSafely(handler, message, { req, clientKey, notify: () => {} })
+    return response ? Response.json(response) : new Response(null, { status: 202 })
+  }
+
+  const encoder = new TextEncoder()
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (payload: unknown) => controller.enqueue(encoder.encode(`event: message\ndata: ${JSON.stringify(payload)}\n\n`))
+      const response = await handleSafely(handler, message, { req, clientKey, notify: send })
+      if (response) send(response)
+      controller.close()
+    },
+  })
+  return new Response(stream, {
+    headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' },
+  })
+}
+
+/**
+ * Runs the stdio transport: newline-delimited JSON-RPC on stdin/stdout.
+ * `headers` are sent to the authenticator with every call, e.g.
+ * `{ Authorization: 'Bearer ...' }`.
+ */
+export async function serveMcpStdio(options: {
+  projectDir: string
+  authenticate?: Authenticator
+  headers?: Record<string, string>
+}): Promise<void> {
+  // stdout carries the protocol. Anything features log goes to stderr.
+  console.log = console.error
+  console.info = console.error
+
+  const registry = await scanAllFeatures(options.projectDir)
+  let version = '0.0.0'
+  try {
+    version = (await Bun.file(path.resolve(options.projectDir, 'package.json')).json()).version ?? version
+  } catch {}
+  const handler = createMcpHandler({
+    registry,
+    authenticate: options.authenticate,
+    serverInfo: { name: manifestConfig.appName, version },
+    onEvent(event) {
+      if (!sparkConfig.enabled || !sparkConfig.watch.serverErrors) return
+      try { sparkDb.logEvent(event) } catch {}
+    },
+    onAccess(entry) {
+      if (!sparkConfig.enabled) return
+      try { sparkDb.logAccess(entry) } catch {}
+    },
+  })
+
+  const write = (payload: unknown) => process.stdout.write(JSON.stringify(payload) + '\n')
+  const ctx: McpCallContext = {
+    req: new Request('http://localhost/__mcp', { method: 'POST', headers: options.headers }),
+    clientKey: 'stdio',
+    notify: write,
+  }
+
+  const decoder = new TextDecoder()
+  let buffer = ''
+  for await (const chunk of Bun.stdin.stream()) {
+    buffer += decoder.decode(chunk, { stream: true })
+    let newline: number
+    while ((newline = buffer.indexOf('\n')) !== -1) {
+      const line = buffer.slice(0, newline).trim()
+      buffer = buffer.slice(newline + 1)
+      if (!line) continue
+      let message: unknown
+      try {
+        message = JSON.parse(line)
+      } catch {
+        write(rpcError(null, PARSE_ERROR, 'Parse error'))
+        continue
+      }
+      handleSafely(handler, message, ctx).then((response) => {
+        if (response) write(response)
+      })
+    }
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Input normalization. Runs after query/path coercion and before validation,
+ * in the server, the test client and the event bus, so handlers receive the
+ * final values:
+ *
+ *   - missing or null fields take their `default` (cloned, never shared)
+ *   - string fields apply `trim` and `lowercase`
+ *   - string fields with `toDate` and a date/datetime format become Date
+ *     objects when the string parses; otherwise they stay strings and fail
+ *     validation with `invalid_format`
+ *
+ * Nested object fields and array items with an `items` schema are normalized
+ * recursively. Union values are passed through as given. Undeclared keys are
+ * dropped when `unknownFields` is 'strip' and left untouched otherwise. Only
+ * own keys are copied, and `__proto__` stays a plain key, so input can't
+ * reach the object prototype.
+ */
+
+import type { FieldDef, InputSchemaDef, StringFieldDef, UnknownFieldsPolicy } from './types'
+
+/**
+ * Sets `key` as an own property. Unlike `target[key] = value` (and
+ * Object.assign), a '__proto__' key from JSON stays a plain key that the
+ * unknown fields policy can see, instead of replacing the prototype.
+ */
+export function setOwn(target: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(target, key, { value, enumerable: true, writable: true, configurable: true })
+}
+
+/** Copies every own key of `source` onto `target` with setOwn(). */
+export function assignOwn(target: Record<string, unknown>, source: Record<string, unknown>): void {
+  for (const key of Object.keys(source)) setOwn(target, key, source[key])
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function normalizeString(field: StringFieldDef, value: unknown): unknown {
+  if (typeof value !== 'string') return value
+  let result = value
+  if (field.trim) result = result.trim()
+  if (field.lowercase) result = result.toLowerCase()
+  if (field.toDate && (field.format === 'date' || field.format === 'datetime')) {
+    const ms = Date.parse(result)
+    if (!isNaN(ms)) return new Date(ms)
+  }
+  return result
+}
+
+function normalizeValue(field: FieldDef, value: unknown, unknownFields: UnknownFieldsPolicy): unknown {
+  if (value === undefined || value === null) {
+    return field.default !== undefined ? structuredClone(field.default) : value
+  }
+  switch (field.type) {
+    case 'string':
+      return normalizeString(field, value)
+    case 'object':
+      return isPlainObject(value) ? normalizeInput(field.fields, value, { unknownFields }) : value
+    case 'array': {
+      const items = field.items
+      return items && Array.isArray(value) ? value.map((item) => normalizeValue(items, item, unknownFields)) : value
+    }
+    default:
+      return value
+  }
+}
+
+/**
+ * Applies defaults and transforms to input data. Returns a new object; the
+ * original is not modified. `allowKeys` (e.g. path params) are kept even when
+ * undeclared.
+ */
+export function normalizeInput(
+  schema: InputSchemaDef,
+  data: Record<string, unknown>,
+  options: { unknownFields?: UnknownFieldsPolicy; allowKeys?: readonly string[] } = {},
+): Record<string, unknown> {
+  const unknownFields = options.unknownFields ?? 'allow'
+  const result: Record<string, unknown> = {}
+  const keys = unknownFields !== 'strip' ? Object.keys(data) : (options.allowKeys ?? []).filter((key) => Object.hasOwn(data, key))
+  for (const key of keys) setOwn(result, key, data[key])
+  for (const [name, field] of Object.entries(schema)) {
+    const value = normalizeValue(field, data[name], unknownFields)
+    if (value !== undefined) result[name] = value
+  }
+  return result
+}
@@ -0,0 +1,258 @@
+/**
+ * OpenAPI 3.1 document generation from the feature registry.
+ *
+ * Every routed feature becomes one operation, keyed by its name:
+ *   - `:param` and `*rest` route segments become `{param}` path parameters;
+ *     constraints become a `pattern` on undeclared params. A route with
+ *     optional params gets one path per shape, the full one keeping the
+ *     feature name as operationId and the others suffixed `-2`, `-3`...
+ *   - GET and DELETE inputs are query parameters; POST, PUT and PATCH
+ *     inputs are a JSON request body
+ *   - successes are a ResponseEnvelope, with `data` typed by the feature's
+ *     `output` schema when it has one
+ *   - the 401/405/413/415/422/429/500 responses the server produces are
+ *     shared components (413 and 415 on POST, PUT and PATCH); `errorCases`
+ *     like '404 - User not found' add their own
+ *   - stream features respond with `text/event-stream`
+ *
+ * Event features have no route and are left out. Field schemas come from
+ * toJsonSchema(), so the mapping matches manifest/jsonSchema.ts.
+ */
+
+import type { AnyFeatureDef, HttpMethod } from './feature'
+import type { FieldDef } from './types'
+import type { FeatureRegistry } from './scanner'
+import { toJsonSchema, type JsonSchema } from './jsonSchema'
+import { parseRoute, expandRoute, type RouteSegment } from './router'
+import { BODY_METHODS } from './body'
+
+export interface OpenApiDocument {
+  openapi: '3.1.0'
+  info: { title: string; version: string; description?: string }
+  servers?: { url: string }[]
+  paths: Record<string, Record<string, unknown>>
+  components: Record<string, Record<string, unknown>>
+}
+
+export interface OpenApiOptions {
+  title: string
+  version: string
+  description?: string
+  serverUrl?: string
+}
+
+const ENVELOPE_META: JsonSchema = {
+  type: 'object',
+  required: ['feature', 'request_id', 'duration_ms'],
+  properties: {
+    feature: { type: 'string' },
+    request_id: { type: 'string' },
+    duration_ms: { type: 'number' },
+  },
+}
+
+/** The ResponseEnvelope schema with `data` as given. MCP tools use it as their output schema. */
+export function envelopeSchema(data: JsonSchema = {}): JsonSchema {
+  return {
+    type: 'object',
+    required: ['status', 'message', 'meta'],
+    properties: {
+      status: { type: 'integer' },
+      message: { type: 'string' },
+      data,
+      errors: { type: 'object', additionalProperties: { type: 'string' } },
+      meta: ENVELOPE_META,
+    },
+  }
+}
+
+const COMPONENTS = {
+  schemas: {
+    ResponseEnvelope: envelopeSchema(),
+    ErrorResponse: {
+      type: 'object',
+      required: ['status', 'message'],
+      properties: {
+        status: { type: 'integer' },
+        message: { type: 'string' },
+        errors: {
+          type: 'object',
+          description: 'Error codes keyed by field path, e.g. `items.2.email: invalid_format`.',
+          additionalProperties: { type: 'string' },
+        },
+        meta: ENVELOPE_META,
+      },
+    },
+  },
+  responses: {
+    Unauthorized: errorResponse('Authentication required'),
+    MethodNotAllowed: {
+      ...errorResponse('Method not allowed'),
+      headers: {
+        Allow: { description: 'Methods the path supports, e.g. `GET, HEAD, OPTIONS`.', schema: { type: 'string' } },
+      },
+    },
+    PayloadTooLarge: errorResponse('Request body too large'),
+    UnsupportedMediaType: errorResponse('Request body is not application/json'),
+    ValidationFailed: errorResponse('Validation failed'),
+    RateLimited: {
+      ...errorResponse('Rate limit exceeded'),
+      headers: {
+        'Retry-After': { description: 'Seconds until the next request is allowed.', schema: { type: 'integer' } },
+        'X-RateLimit-Limit': { description: 'Requests allowed per window.', schema: { type: 'integer' } },
+        'X-RateLimit-Remaining': { description: 'Requests left in the window.', schema: { type: 'integer' } },
+      },
+    },
+    InternalError: errorResponse('Internal server error'),
+  },
+}
+
+function errorResponse(description: string) {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } },
+  }
+}
+
+function ref(name: string) {
+  return { $ref: `#/components/responses/${name}` }
+}
+
+/** Parsed '/api/users/:id(\d+)' → '/api/users/{id}' */
+function toOpenApiPath(segments: RouteSegment[]): string {
+  return '/' + segments.map((s) => (s.kind === 'static' ? s.value : `{${s.name}}`)).join('/')
+}
+
+type PathParam = Exclude<RouteSegment, { kind: 'static' }>
+
+/** Parses errorCases like '404 - User not found' into status → descriptions. */
+function errorCaseResponses(errorCases: string[]): Record<string, string[]> {
+  const byStatus: Record<string, string[]> = {}
+  for (const errorCase of errorCases) {
+    const match = /^(\d{3})\s*[-–:]?\s*(.*)$/.exec(errorCase.trim())
+    if (!match) continue
+    ;(byStatus[match[1]!] ??= []).push(match[2] || errorCase)
+  }
+  return byStatus
+}
+
+function successResponse(feature: AnyFeatureDef) {
+  if (feature.type === 'stream') {
+    return {
+      description: 'Server-sent events. The first event is `meta` with the request id; failures arrive as an `error` event.',
+      content: { 'text/event-stream': { schema: { type: 'string' } } },
+    }
+  }
+  const envelope = { $ref: '#/components/schemas/ResponseEnvelope' }
+  const schema = feature.output
+    ? { allOf: [envelope, { type: 'object', properties: { data: toJsonSchema(feature.output, { dialect: false }) } }] }
+    : envelope
+  return { description: 'Success', content: { 'application/json': { schema } } }
+}
+
+/** Moves a field schema's description up to the parameter object. */
+function parameterSchema({ description, ...schema }: JsonSchema) {
+  return { ...(description && { description }), schema }
+}
+
+function buildOperation(feature: AnyFeatureDef, method: HttpMethod, segments: RouteSegment[], operationId: string) {
+  const pathParams = segments.filter((s): s is PathParam => s.kind !== 'static')
+  const pathNames = pathParams.map((p) => p.name)
+  const fields: Record<string, FieldDef> = {}
+  for (const [name, field] of Object.entries(feature.input)) {
+    if (!pathNames.includes(name)) fields[name] = field
+  }
+  const inputSchema = toJsonSchema(fields, { dialect: false, unknownFields: feature.unknownFields })
+  const required = new Set(inputSchema.required ?? [])
+
+  const parameters: Record<string, unknown>[] = pathParams.map((param) => {
+    const { name } = param
+    const field = feature.input[name]
+    const constraint = param.kind === 'param' && param.constraint
+    const schema = field
+      ? toJsonSchema({ [name]: field }, { dialect: false }).properties![name]!
+      : { type: 'string', ...(constraint && { pattern: `^(?:${constraint})$` }) }
+    return { name, in: 'path', required: true, ...parameterSchema(schema) }
+  })
+
+  let requestBody: Record<string, unknown> | undefined
+  if (BODY_METHODS.has(method)) {
+    if (Object.keys(fields).length > 0) {
+      requestBody = { required: required.size > 0, content: { 'application/json': { schema: inputSchema } } }
+    }
+  } else {
+    for (const [name, schema] of Object.entries(inputSchema.properties ?? {})) {
+      parameters.push({ name, in: 'query', required: required.has(name), ...parameterSchema(schema) })
+    }
+  }
+
+  const responses: Record<string, unknown> = { '200': successResponse(feature) }
+  if (requestBody) responses['400'] = errorResponse('Invalid JSON body')
+  if (feature.authentication === 'required') responses['401'] = ref('Unauthorized')
+  responses['405'] = ref('MethodNotAllowed')
+  if (BODY_METHODS.has(method)) {
+    responses['413'] = ref('PayloadTooLarge')
+    responses['415'] = ref('UnsupportedMediaType')
+  }
+  responses['422'] = ref('ValidationFailed')
+  if (feature.rateLimit) responses['429'] = ref('RateLimited')
+  responses['500'] = ref('InternalError')
+  // errorCases describe the feature's own fail() results; server responses keep their shared shape
+  for (const [status, descriptions] of Object.entries(errorCaseResponses(feature.errorCases))) {
+    responses[status] ??= {
+      description: descriptions.join('; '),
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/ResponseEnvelope' } } },
+    }
+  }
+
+  const security =
+    feature.authentication === 'required' ? [{ bearerAuth: [] }] :
+    feature.authentication === 'optional' ? [{ bearerAuth: [] }, {}] :
+    []
+
+  return {
+    operationId,
+    description: feature.description,
+    ...(parameters.length > 0 && { parameters }),
+    ...(requestBody && { requestBody }),
+    responses,
+    security,
+  }
+}
+
+/**
+ * Builds an OpenAPI 3.1 document for every routed feature in a registry
+ * (as returned by scanAllFeatures()).
+ */
+export function generateOpenApi(registry: FeatureRegistry, options: OpenApiOptions): OpenApiDocument {
+  const paths: OpenApiDocument['paths'] = {}
+  let usesAuth = false
+
+  const features = Object.values(registry).sort((a, b) => a.name.localeCompare(b.name))
+  for (const feature of features) {
+    if (!feature.route) continue
+    const [method, pattern] = feature.route
+    // Full shape first: expandRoute() lists it last
+    const variants = expandRoute(parseRoute(pattern)).reverse()
+    variants.forEach((segments, i) => {
+      const item = (paths[toOpenApiPath(segments)] ??= {})
+      item[method.toLowerCase()] = buildOperation(feature, method, segments, i === 0 ? feature.name : `${feature.name}-${i + 1}`)
+    })
+    if (feature.authentication !== 'none') usesAuth = true
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: options.title,
+      version: options.version,
+      ...(options.description && { description: options.description }),
+    },
+    ...(options.serverUrl && { servers: [{ url: options.serverUrl }] }),
+    paths,
+    components: {
+      ...COMPONENTS,
+      ...(usesAuth && { securitySchemes: { bearerAuth: { type: 'http', scheme: 'bearer' } } }),
+    },
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Hot reload for features, without restarting the server.
+ *
+ * watchFeatures() watches features/ and every extensions/<name>/features/
+ * directory. On change, the server re-imports all feature modules with a
+ * fresh `?v=` specifier (bypassing the module cache) and swaps its registry,
+ * router, event bus and MCP handler in one assignment. Requests already
+ * running keep the definition they were routed to; SSE clients and rate
+ * limit counters survive because the process does.
+ *
+ * Only the feature modules themselves are re-imported. Shared modules they
+ * import (services/, helpers) stay cached until the process restarts.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import type { HttpMethod } from './feature'
+import type { FeatureRegistry } from './scanner'
+
+export interface RouteChange {
+  kind: 'added' | 'removed' | 'changed'
+  feature: string
+  /** The route after the change (for 'removed', the route that went away). */
+  route: [HttpMethod, string]
+  /** The route before a 'changed' entry. */
+  previous?: [HttpMethod, string]
+}
+
+/** Routes that appeared, disappeared or moved between two registries. */
+export function diffRoutes(before: FeatureRegistry, after: FeatureRegistry): RouteChange[] {
+  const changes: RouteChange[] = []
+  const names = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()
+  for (const feature of names) {
+    const previous = before[feature]?.route
+    const route = after[feature]?.route
+    if (route && !previous) changes.push({ kind: 'added', feature, route })
+    else if (previous && !route) changes.push({ kind: 'removed', feature, route: previous })
+    else if (route && previous && (route[0] !== previous[0] || route[1] !== previous[1])) {
+      changes.push({ kind: 'changed', feature, route, previous })
+    }
+  }
+  return changes
+}
+
+/** One log line per change: '+ POST /api/users (create-user)', '~ GET /a → GET /b (name)'. */
+export function formatRouteChange(change: RouteChange): string {
+  const route = change.route.join(' ')
+  if (change.kind === 'changed') return `~ ${change.previous!.join(' ')} → ${route} (${change.feature})`
+  return `${change.kind === 'added' ? '+' : '-'} ${route} (${change.feature})`
+}
+
+/** The directories features are scanned from: features/ and each extension's features/. */
+export function featureDirs(projectDir: string): string[] {
+  const dirs = [path.join(projectDir, 'features')]
+  const extensionsDir = path.join(projectDir, 'extensions')
+  try {
+    for (const entry of fs.readdirSync(extensionsDir)) {
+      dirs.push(path.join(extensionsDir, entry, 'features'))
+    }
+  } catch {}
+  return dirs.filter((dir) => fs.existsSync(dir))
+}
+
+/**
+ * Calls `onChange` (debounced) whenever a feature file is added, edited or
+ * removed. Reloads never overlap: changes during a reload schedule another
+ * one. `dirs` replaces the project's feature directories. Returns a function
+ * that stops watching.
+ */
+export function watchFeatures(projectDir: string, onChange: () => Promise<void>, dirs = featureDirs(projectDir)): () => void {
+  let timeout: ReturnType<typeof setTimeout> | null = null
+  let running = false
+  let again = false
+
+  const run = async () => {
+    if (running) {
+      again = true
+      return
+    }
+    running = true
+    try {
+      await onChange()
+    } catch (err) {
+      console.error('[manifest] Feature reload failed:', err instanceof Error ? err.message : err)
+    } finally {
+      running = false
+      if (again) {
+        again = false
+        schedule()
+      }
+    }
+  }
+
+  const schedule = () => {
+    if (timeout) clearTimeout(timeout)
+    timeout = setTimeout(run, 100)
+  }
+
+  const watchers = dirs.filter((dir) => fs.existsSync(dir)).map((dir) =>
+    fs.watch(dir, { recursive: true }, (_event, filename) => {
+      if (filename && filename.endsWith('.ts') && !filename.endsWith('.test.ts')) schedule()
+    }),
+  )
+
+  return () => {
+    if (timeout) clearTimeout(timeout)
+    for (const watcher of watchers) watcher.close()
+  }
+}
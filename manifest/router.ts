@@ -1,72 +1,232 @@
-import type { AnyFeatureDef, HttpMethod } from './feature'
+/**
+ * Route matching on a segment trie.
+ *
+ * Route patterns:
+ *   /api/users/me            static segments
+ *   /api/users/:id           a param, matching any one segment
+ *   /api/users/:id(\d+)      a param with a regex constraint
+ *   /api/users/:id<uuid>     a param with a named constraint (see CONSTRAINTS)
+ *   /api/posts/:page?        an optional param: matches with or without it
+ *   /files/*path             a catch-all, matching the rest of the path ('' if none)
+ *
+ * At every segment a static child is tried first, then constrained params,
+ * then plain params, then a catch-all. If a branch fails further down, the
+ * next one is tried, so /api/users/me beats /api/users/:id regardless of
+ * registration order. Param values are decoded with decodeURIComponent()
+ * before constraints run. Two routes with the same method and shape keep
+ * the first one registered (checkRegistry() reports them).
+ *
+ * HEAD requests match GET routes. When a path matches but the method
+ * doesn't, the result lists the methods the path does have, for the
+ * `Allow` header and OPTIONS responses.
+ */
 
-interface RouteEntry {
-  method: HttpMethod
-  segments: string[]
-  paramNames: string[]
-  feature: AnyFeatureDef
-}
+import type { AnyFeatureDef, HttpMethod } from './feature'
 
 export type MatchResult =
   | { kind: 'matched'; feature: AnyFeatureDef; params: Record<string, string> }
-  | { kind: 'method_not_allowed' }
+  | { kind: 'method_not_allowed'; allowed: HttpMethod[] }
   | { kind: 'not_found' }
 
 export interface Router {
   match(method: string, path: string): MatchResult
 }
 
+export type RouteSegment =
+  | { kind: 'static'; value: string }
+  | { kind: 'param'; name: string; constraint?: string; optional?: boolean }
+  | { kind: 'catchAll'; name: string }
+
+/** Named constraints for `:param<name>`. */
+export const CONSTRAINTS: Record<string, string> = {
+  int: '-?\\d+',
+  number: '-?(?:\\d+\\.?\\d*|\\.\\d+)',
+  uuid: '[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}',
+  slug: '[a-z0-9]+(?:-[a-z0-9]+)*',
+  alpha: '[A-Za-z]+',
+}
+
+const PARAM_RE = /^:([A-Za-z_][A-Za-z0-9_]*)(?:\((.+)\)|<([A-Za-z]+)>)?(\?)?$/
+const CATCH_ALL_RE = /^\*([A-Za-z_][A-Za-z0-9_]*)$/
+
 function splitPath(path: string): string[] {
   return path.split('/').filter(Boolean)
 }
 
+/**
+ * Parses a route pattern into segments. Throws on malformed params, unknown
+ * named constraints, invalid regexes and a catch-all that isn't last.
+ * Constraints are stored as regex source, named ones resolved.
+ */
+export function parseRoute(pattern: string): RouteSegment[] {
+  const parts = splitPath(pattern)
+  return parts.map((part, i): RouteSegment => {
+    if (part.startsWith('*')) {
+      const match = CATCH_ALL_RE.exec(part)
+      if (!match) throw new Error(`Invalid catch-all '${part}'`)
+      if (i !== parts.length - 1) throw new Error(`Catch-all '${part}' must be the last segment`)
+      return { kind: 'catchAll', name: match[1]! }
+    }
+    if (!part.startsWith(':')) return { kind: 'static', value: part }
+
+    const match = PARAM_RE.exec(part)
+    if (!match) throw new Error(`Invalid param '${part}'`)
+    const [, name, regex, named, optional] = match
+    let constraint = regex
+    if (named !== undefined) {
+      constraint = CONSTRAINTS[named]
+      if (constraint === undefined) throw new Error(`Unknown constraint '<${named}>' in '${part}'`)
+    }
+    if (constraint !== undefined) new RegExp(constraint)
+    return { kind: 'param', name: name!, ...(constraint !== undefined && { constraint }), ...(optional && { optional: true }) }
+  })
+}
+
+/** Every concrete shape of a route: one with and one without each optional param. */
+export function expandRoute(segments: RouteSegment[]): RouteSegment[][] {
+  let variants: RouteSegment[][] = [[]]
+  for (const segment of segments) {
+    if (segment.kind === 'param' && segment.optional) {
+      const { optional: _, ...required } = segment
+      variants = variants.flatMap((v) => [v, [...v, required]])
+    } else {
+      variants = variants.map((v) => [...v, segment])
+    }
+  }
+  return variants
+}
+
+interface RouteTarget {
+  feature: AnyFeatureDef
+  /** Param and catch-all names, in path order. */
+  names: string[]
+}
+
+interface ParamChild {
+  constraint: string | undefined
+  test: RegExp | null
+  node: TrieNode
+}
+
+interface TrieNode {
+  statics: Map<string, TrieNode>
+  /** Constrained params first (in registration order), then the plain one. */
+  params: ParamChild[]
+  catchAll: Map<HttpMethod, RouteTarget> | null
+  routes: Map<HttpMethod, RouteTarget>
+}
+
+function createNode(): TrieNode {
+  return { statics: new Map(), params: [], catchAll: null, routes: new Map() }
+}
+
+function paramChild(node: TrieNode, constraint: string | undefined): TrieNode {
+  let child = node.params.find((p) => p.constraint === constraint)
+  if (!child) {
+    child = { constraint, test: constraint === undefined ? null : new RegExp(`^(?:${constraint})$`), node: createNode() }
+    // Keep the plain param last so constrained ones get the first try
+    const plain = node.params.findIndex((p) => p.constraint === undefined)
+    if (constraint !== undefined && plain !== -1) node.params.splice(plain, 0, child)
+    else node.params.push(child)
+  }
+  return child.node
+}
+
+function decode(segment: string): string {
+  try {
+    return decodeURIComponent(segment)
+  } catch {
+    return segment
+  }
+}
+
 export function createRouter(registry: Record<string, AnyFeatureDef>): Router {
-  const entries: RouteEntry[] = []
+  const root = createNode()
 
   for (const feature of Object.values(registry)) {
     if (!feature.route) continue
 
     const [method, pattern] = feature.route
-    const segments = splitPath(pattern)
-    const paramNames: string[] = []
-
-    for (const seg of segments) {
-      if (seg.startsWith(':')) paramNames.push(seg.slice(1))
+    let segments: RouteSegment[]
+    try {
+      segments = parseRoute(pattern)
+    } catch (err) {
+      throw new Error(`Invalid route ${method} ${pattern} (${feature.name}): ${err instanceof Error ? err.message : err}`)
     }
 
-    entries.push({ method, segments, paramNames, feature })
-  }
-
-  function tryMatch(entry: RouteEntry, pathSegments: string[]): Record<string, string> | null {
-    if (entry.segments.length !== pathSegments.length) return null
-    const params: Record<string, string> = {}
-    for (let i = 0; i < entry.segments.length; i++) {
-      const seg = entry.segments[i]!
-      if (seg.startsWith(':')) {
-        params[seg.slice(1)] = pathSegments[i]!
-      } else if (seg !== pathSegments[i]) {
-        return null
+    for (const variant of expandRoute(segments)) {
+      let node = root
+      const names: string[] = []
+      let routes: Map<HttpMethod, RouteTarget> | null = null
+      for (const segment of variant) {
+        if (segment.kind === 'static') {
+          let child = node.statics.get(segment.value)
+          if (!child) node.statics.set(segment.value, (child = createNode()))
+          node = child
+        } else if (segment.kind === 'param') {
+          names.push(segment.name)
+          node = paramChild(node, segment.constraint)
+        } else {
+          names.push(segment.name)
+          routes = node.catchAll ??= new Map()
+        }
       }
+      routes ??= node.routes
+      if (!routes.has(method)) routes.set(method, { feature, names })
     }
-    return params
   }
 
   return {
     match(method: string, path: string): MatchResult {
-      const pathSegments = splitPath(path)
-      let pathMatched = false
-
-      for (const entry of entries) {
-        const params = tryMatch(entry, pathSegments)
-        if (params) {
-          if (entry.method === method) {
-            return { kind: 'matched', feature: entry.feature, params }
+      const segments = splitPath(path)
+      const values: string[] = []
+      const allowed = new Set<HttpMethod>()
+
+      const found = (routes: Map<HttpMethod, RouteTarget>): RouteTarget | null => {
+        for (const routeMethod of routes.keys()) allowed.add(routeMethod)
+        return routes.get(method as HttpMethod) ?? (method === 'HEAD' ? routes.get('GET') : undefined) ?? null
+      }
+
+      const search = (node: TrieNode, i: number): RouteTarget | null => {
+        if (i === segments.length) {
+          const target = found(node.routes)
+          if (target) return target
+        } else {
+          const segment = segments[i]!
+          const child = node.statics.get(segment)
+          if (child) {
+            const target = search(child, i + 1)
+            if (target) return target
+          }
+          if (node.params.length > 0) {
+            const value = decode(segment)
+            for (const param of node.params) {
+              if (param.test && !param.test.test(value)) continue
+              values.push(value)
+              const target = search(param.node, i + 1)
+              if (target) return target
+              values.pop()
+            }
           }
-          pathMatched = true
         }
+        if (node.catchAll) {
+          const target = found(node.catchAll)
+          if (target) {
+            values.push(segments.slice(i).map(decode).join('/'))
+            return target
+          }
+        }
+        return null
+      }
+
+      const target = search(root, 0)
+      if (!target) {
+        return allowed.size > 0 ? { kind: 'method_not_allowed', allowed: [...allowed].sort() } : { kind: 'not_found' }
       }
 
-      return pathMatched ? { kind: 'method_not_allowed' } : { kind: 'not_found' }
+      const params: Record<string, string> = {}
+      target.names.forEach((name, i) => { params[name] = values[i]! })
+      return { kind: 'matched', feature: target.feature, params }
     },
   }
 }
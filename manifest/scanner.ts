@@ -1,45 +1,153 @@
-import type { AnyFeatureDef } from './feature'
+import { usesDefaultAuthentication, type AnyFeatureDef, type GroupOptions } from './feature'
 import { readdirSync, existsSync, statSync } from 'fs'
 import path from 'path'
 
 export type FeatureRegistry = Record<string, AnyFeatureDef>
 
-export async function scanFeatures(featuresDir: string): Promise<FeatureRegistry> {
-  const registry: FeatureRegistry = {}
+export interface ScanOptions {
+  /**
+   * Appended to every import specifier (`?v=<version>`) so changed modules
+   * are imported fresh instead of from the module cache. Used by hot reload.
+   */
+  version?: string
+  /** Throw on the first feature that fails to load instead of skipping it. */
+  strict?: boolean
+}
+
+/** A feature file and the folder it sits in, relative to the features directory. */
+interface FeatureFile {
+  file: string
+  namespace: string
+}
 
-  let files: string[]
+/**
+ * Lists feature files under `dir`, depth first in name order. Skips hidden
+ * entries, tests and `_`-prefixed files such as `_group.ts`.
+ */
+function listFeatureFiles(dir: string, namespace = ''): FeatureFile[] {
+  let entries: string[]
   try {
-    files = readdirSync(featuresDir)
+    entries = readdirSync(dir).sort()
   } catch {
-    return registry
+    return []
+  }
+
+  const files: FeatureFile[] = []
+  for (const entry of entries) {
+    if (entry.startsWith('.')) continue
+    const relative = namespace ? `${namespace}/${entry}` : entry
+    if (statSync(path.join(dir, entry)).isDirectory()) {
+      files.push(...listFeatureFiles(path.join(dir, entry), relative))
+    } else if (entry.endsWith('.ts') && !entry.endsWith('.test.ts') && !entry.startsWith('_')) {
+      files.push({ file: relative, namespace })
+    }
   }
+  return files
+}
+
+/** '/api/billing' + '/invoices/:id' → '/api/billing/invoices/:id' */
+function joinRoute(prefix: string, pattern: string): string {
+  const joined = `/${prefix}/${pattern}`.replace(/\/+/g, '/')
+  return joined.length > 1 ? joined.replace(/\/$/, '') : joined
+}
 
-  const tsFiles = files.filter((f) => f.endsWith('.ts') && !f.endsWith('.test.ts'))
+/**
+ * Scans a features directory recursively. Each feature records its folder
+ * path as `_namespace` ('billing/invoices'; root features have none) and
+ * picks up the defaults of every `_group.ts` from the root down to its
+ * folder (see GroupOptions). Two files defining the same feature name are
+ * reported; the first in path order wins.
+ */
+export async function scanFeatures(featuresDir: string, options: ScanOptions = {}): Promise<FeatureRegistry> {
+  const registry: FeatureRegistry = {}
+  const specifier = (fullPath: string) => (options.version ? `${fullPath}?v=${options.version}` : fullPath)
+  const failed = (file: string, err: unknown) => {
+    if (options.strict) throw new Error(`Failed to load feature from ${file}: ${err instanceof Error ? err.message : err}`)
+    console.error(`[manifest] Failed to load feature from ${file}:`, err)
+  }
 
-  const imports = tsFiles.map(async (file) => {
+  const files = listFeatureFiles(featuresDir)
+
+  // Group defaults, keyed by namespace ('' for the features directory itself)
+  const groups = new Map<string, Promise<GroupOptions | null>>()
+  const loadGroup = (namespace: string): Promise<GroupOptions | null> => {
+    let group = groups.get(namespace)
+    if (!group) {
+      const file = namespace ? `${namespace}/_group.ts` : '_group.ts'
+      const fullPath = path.resolve(featuresDir, file)
+      group = existsSync(fullPath)
+        ? import(specifier(fullPath)).then(
+            (mod) => (mod.default as GroupOptions | undefined) ?? null,
+            (err) => {
+              failed(file, err)
+              return null
+            },
+          )
+        : Promise.resolve(null)
+      groups.set(namespace, group)
+    }
+    return group
+  }
+
+  /** Merges the groups from the root down to `namespace`. */
+  const groupDefaults = async (namespace: string): Promise<GroupOptions> => {
+    const parts = namespace ? namespace.split('/') : []
+    const chain = await Promise.all(['', ...parts.map((_, i) => parts.slice(0, i + 1).join('/'))].map(loadGroup))
+    const defaults: GroupOptions = {}
+    for (const group of chain) {
+      if (!group) continue
+      if (group.routePrefix) defaults.routePrefix = joinRoute(defaults.routePrefix ?? '', group.routePrefix)
+      if (group.authentication) defaults.authentication = group.authentication
+      if (group.rateLimit) defaults.rateLimit = group.rateLimit
+    }
+    return defaults
+  }
+
+  const imports = files.map(async ({ file, namespace }) => {
     const fullPath = path.resolve(featuresDir, file)
     try {
-      const mod = await import(fullPath)
-      const feature = mod.default as AnyFeatureDef | undefined
+      const [mod, defaults] = await Promise.all([import(specifier(fullPath)), groupDefaults(namespace)])
+      let feature = mod.default as AnyFeatureDef | undefined
       if (feature && typeof feature === 'object' && feature.name) {
-        ;(feature as any)._sourcePath = path.relative(process.cwd(), fullPath)
-        return [feature.name, feature] as const
+        // Copy before applying defaults: the imported module object is shared
+        // by every scan of this directory
+        if (defaults.routePrefix || defaults.authentication || defaults.rateLimit) {
+          const applied = { ...feature } as AnyFeatureDef
+          if (defaults.routePrefix && applied.route) applied.route = [applied.route[0], joinRoute(defaults.routePrefix, applied.route[1])]
+          if (defaults.authentication && usesDefaultAuthentication(feature)) applied.authentication = defaults.authentication
+          if (defaults.rateLimit && !applied.rateLimit) applied.rateLimit = defaults.rateLimit
+          feature = applied
+        }
+        feature._sourcePath = path.relative(process.cwd(), fullPath)
+        if (namespace) feature._namespace = namespace
+        return { file, feature }
       }
     } catch (err) {
-      console.error(`[manifest] Failed to load feature from ${file}:`, err)
+      failed(file, err)
     }
     return null
   })
 
+  // Results keep path order, so collisions resolve the same way every time
   const results = await Promise.all(imports)
+  const sources: Record<string, string> = {}
   for (const result of results) {
-    if (result) registry[result[0]] = result[1]
+    if (!result) continue
+    const { name } = result.feature
+    if (registry[name]) {
+      const message = `Feature '${name}' is defined in both ${sources[name]} and ${result.file}`
+      if (options.strict) throw new Error(message)
+      console.error(`[manifest] ${message} — using ${sources[name]}`)
+      continue
+    }
+    registry[name] = result.feature
+    sources[name] = result.file
   }
 
   return registry
 }
 
-export async function scanAllFeatures(projectDir: string): Promise<FeatureRegistry> {
+export async function scanAllFeatures(projectDir: string, options: ScanOptions = {}): Promise<FeatureRegistry> {
   // Scan extensions first so project features win on name collision
   const registry: FeatureRegistry = {}
 
@@ -56,20 +164,25 @@ export async function scanAllFeatures(projectDir: string): Promise<FeatureRegist
     const extDirs = entries
       .map((entry) => ({ entry, entryPath: path.join(extensionsDir, entry) }))
       .filter(({ entryPath }) => statSync(entryPath).isDirectory())
-      .map(({ entryPath }) => path.join(entryPath, 'features'))
-      .filter((extFeaturesDir) => existsSync(extFeaturesDir))
+      .map(({ entry, entryPath }) => ({ entry, featuresDir: path.join(entryPath, 'features') }))
+      .filter(({ featuresDir }) => existsSync(featuresDir))
 
-    const extRegistries = await Promise.all(extDirs.map((dir) => scanFeatures(dir)))
-    for (const extRegistry of extRegistries) {
+    const extRegistries = await Promise.all(extDirs.map(({ featuresDir }) => scanFeatures(featuresDir, options)))
+    extRegistries.forEach((extRegistry, i) => {
+      // Remember which extension each feature came from (shown by /__manifest)
+      for (const feature of Object.values(extRegistry)) {
+        feature._extension = extDirs[i]!.entry
+      }
       Object.assign(registry, extRegistry)
-    }
+    })
   }
 
   // Scan project features last — they override extensions on collision
-  const projectRegistry = await scanFeatures(path.join(projectDir, 'features'))
+  const projectRegistry = await scanFeatures(path.join(projectDir, 'features'), options)
   for (const [name, feature] of Object.entries(projectRegistry)) {
     if (registry[name]) {
-      console.warn(`[manifest] Feature '${name}' in project overrides extension feature at ${(registry[name] as any)._sourcePath}`)
+      console.warn(`[manifest] Feature '${name}' in project overrides extension feature at ${registry[name]._sourcePath}`)
+      feature._overrides = registry[name]._sourcePath
     }
     registry[name] = feature
   }
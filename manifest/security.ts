@@ -0,0 +1,78 @@
+/**
+ * Security headers for every response the server sends.
+ *
+ * The settings live in config/manifest.ts: HSTS, X-Content-Type-Options,
+ * Referrer-Policy, X-Frame-Options and two Content-Security-Policies, one
+ * for HTML pages and a locked-down one for everything else (JSON, SSE,
+ * scripts, images). Policies are written as directives:
+ *
+ *   contentSecurityPolicy: {
+ *     'default-src': ["'self'"],
+ *     'script-src': ["'self'", "'nonce'"],
+ *   }
+ *
+ * `'nonce'` stands for a fresh nonce per response. HTML served from dist/
+ * gets `nonce="..."` on every <script> and <style> tag and a policy with
+ * `'nonce-...'` in its place. Responses without a nonce drop it.
+ *
+ * Headers a response already sets win, so a handler can send its own policy.
+ */
+
+import manifestConfig from '../config/manifest'
+
+/** Directive name → source list, e.g. { 'img-src': ["'self'", 'data:'] }. */
+export type CspDirectives = Record<string, string[]>
+
+const NONCE_SOURCE = "'nonce'"
+
+/** A base64 nonce for one response. */
+export function createNonce(): string {
+  return Buffer.from(crypto.getRandomValues(new Uint8Array(16))).toString('base64')
+}
+
+/**
+ * Serializes directives into a header value. `'nonce'` sources become
+ * `'nonce-<nonce>'`, or are dropped when there's no nonce. A directive with
+ * no sources is written alone, e.g. 'upgrade-insecure-requests'.
+ */
+export function buildCsp(directives: CspDirectives, nonce?: string): string {
+  return Object.entries(directives)
+    .map(([name, sources]) => {
+      const values = sources.flatMap((source) => {
+        if (source !== NONCE_SOURCE) return [source]
+        return nonce ? [`'nonce-${nonce}'`] : []
+      })
+      return [name, ...values].join(' ')
+    })
+    .join('; ')
+}
+
+/** Adds `nonce="..."` to every <script> and <style> tag that doesn't have one. */
+export function injectNonce(html: string, nonce: string): string {
+  return html.replace(/<(script|style)\b(?![^>]*\bnonce=)/gi, `<$1 nonce="${nonce}"`)
+}
+
+/**
+ * The headers for a response of `contentType`. The HTML policy applies to
+ * text/html, the API policy to everything else. Empty when security headers
+ * are turned off.
+ */
+export function securityHeaders(contentType: string | null, nonce?: string): Record<string, string> {
+  if (!manifestConfig.securityHeaders) return {}
+  const headers: Record<string, string> = { 'X-Content-Type-Options': 'nosniff' }
+  if (manifestConfig.hsts) headers['Strict-Transport-Security'] = manifestConfig.hsts
+  if (manifestConfig.referrerPolicy) headers['Referrer-Policy'] = manifestConfig.referrerPolicy
+  if (manifestConfig.frameOptions) headers['X-Frame-Options'] = manifestConfig.frameOptions
+  const html = contentType?.startsWith('text/html') ?? false
+  const policy = html ? manifestConfig.contentSecurityPolicy : manifestConfig.apiContentSecurityPolicy
+  if (Object.keys(policy).length > 0) headers['Content-Security-Policy'] = buildCsp(policy, nonce)
+  return headers
+}
+
+/** Adds securityHeaders() to a response, keeping any it already has. */
+export function withSecurityHeaders(response: Response): Response {
+  for (const [name, value] of Object.entries(securityHeaders(response.headers.get('content-type')))) {
+    if (!response.headers.has(name)) response.headers.set(name, value)
+  }
+  return response
+}
@@ -1,11 +1,25 @@
 import path from 'path'
 import fs from 'fs'
-import { scanAllFeatures } from './scanner'
-import { createRouter } from './router'
-import { validateInput } from './validator'
-import { toEnvelope, createResultHelpers } from './envelope'
+import { timingSafeEqual } from 'crypto'
+import { scanFeatures, scanAllFeatures, type FeatureRegistry, type ScanOptions } from './scanner'
+import { createRouter, type Router } from './router'
+import { coerceInput, collectSearchParams } from './coerce'
+import { createCallHandler, elapsed, type CallContext, type CallLog, type CallOutcome, type StreamRunner } from './call'
+import { assignOwn } from './normalize'
+import { BODY_METHODS, hasBody, isJsonContentType, readJsonBody, unsupportedContentType } from './body'
+import type { Authenticator } from './auth'
+import { createEventBus, type EventBus } from './events'
+import { generateOpenApi, type OpenApiDocument } from './openapi'
+import { createMcpHandler, handleMcpHttp, type McpHandler } from './mcp'
+import { diffRoutes, formatRouteChange, watchFeatures, type RouteChange } from './reload'
+import { describeRegistry } from './introspect'
+import { createUrlFor, type UrlForFn } from './urls'
+import { resolveCors, corsHeaders, preflightHeaders } from './cors'
+import { withSecurityHeaders } from './security'
+import { checkRegistry, formatIssue } from './check'
+import type { EmitFn, HttpMethod } from './feature'
 import { createStaticHandler, watchFrontend } from './frontend'
-import { checkRateLimit, startCleanup } from '../services/rateLimiter'
+import { startCleanup } from '../services/rateLimiter'
 import frontendConfig from '../config/frontend'
 import manifestConfig from '../config/manifest'
 import sparkConfig from '../config/spark'
@@ -15,19 +29,73 @@ const textEncoder = new TextEncoder()
 
 export interface ManifestServerOptions {
   projectDir: string
+  /** Load features from this directory only, instead of features/ and extensions (e.g. test fixtures). */
+  featuresDir?: string
   port?: number
+  /** Resolves the user for features with `authentication: 'required' | 'optional'`. */
+  authenticate?: Authenticator
 }
 
 export type ManifestServer = Awaited<ReturnType<typeof createManifestServer>>
 
+/**
+ * Everything built from the feature registry. Hot reload replaces it as one
+ * object; each request reads it once, so it finishes on the definitions it
+ * started with.
+ */
+interface LoadedFeatures {
+  registry: FeatureRegistry
+  router: Router
+  events: EventBus
+  mcp: McpHandler
+  urlFor: UrlForFn
+  /** OpenAPI document, built on first request. */
+  openApi: OpenApiDocument | null
+}
+
+/**
+ * The `Allow` header for a routed path: its features' methods, plus HEAD
+ * wherever GET is served and OPTIONS, which the server always answers.
+ */
+function allowHeader(methods: HttpMethod[]): string {
+  const allowed: string[] = [...methods]
+  if (methods.includes('GET')) allowed.push('HEAD')
+  allowed.push('OPTIONS')
+  return allowed.join(', ')
+}
+
+/**
+ * Logs checkRegistry() issues. Errors are fatal outside debug mode: a
+ * shadowed route or an unreachable field shouldn't reach production.
+ */
+function reportCheckIssues(registry: FeatureRegistry) {
+  const issues = checkRegistry(registry)
+  for (const issue of issues) console.warn(`[manifest] ${formatIssue(issue)}`)
+  const errors = issues.filter((issue) => issue.severity === 'error').length
+  if (errors > 0 && !manifestConfig.debug) {
+    throw new Error(`[manifest] Feature check found ${errors} error(s). Run \`bun run check\` for details.`)
+  }
+}
+
 export async function createManifestServer(options: ManifestServerOptions) {
-  const registry = await scanAllFeatures(options.projectDir)
-  const router = createRouter(registry)
+  const scan = (scanOptions?: ScanOptions) => options.featuresDir
+    ? scanFeatures(options.featuresDir, scanOptions)
+    : scanAllFeatures(options.projectDir, scanOptions)
+
+  const registry = await scan()
+  reportCheckIssues(registry)
+
+  if (!options.authenticate) {
+    const protectedFeatures = Object.values(registry).filter((f) => f.authentication === 'required')
+    if (protectedFeatures.length > 0) {
+      console.warn(`[manifest] No authenticator configured — ${protectedFeatures.length} feature(s) with authentication: 'required' will always respond 401`)
+    }
+  }
 
   const sparkEnabled = sparkConfig.enabled
   const sparkWatchErrors = sparkEnabled && sparkConfig.watch.serverErrors
 
-  const log = {
+  const log: CallLog = {
     access(entry: AccessLog) {
       if (!sparkEnabled) return
       try { sparkDb.logAccess(entry) } catch {}
@@ -38,14 +106,51 @@ export async function createManifestServer(options: ManifestServerOptions) {
     },
   }
 
-  function elapsed(start: number): number {
-    return Math.round((performance.now() - start) * 100) / 100
+  let version = '0.0.0'
+  try {
+    version = JSON.parse(fs.readFileSync(path.resolve(options.projectDir, 'package.json'), 'utf8')).version ?? version
+  } catch {}
+
+  function load(registry: FeatureRegistry): LoadedFeatures {
+    // Event features run in-process, triggered by ctx.publish()
+    const events = createEventBus(registry, { onError: log.event })
+    // MCP over HTTP, sharing the event bus and Spark logging with HTTP calls
+    const mcp = createMcpHandler({
+      registry,
+      authenticate: options.authenticate,
+      events,
+      onEvent: log.event,
+      onAccess: log.access,
+      serverInfo: { name: manifestConfig.appName, version },
+    })
+    return { registry, router: createRouter(registry), events, mcp, urlFor: createUrlFor(registry), openApi: null }
+  }
+
+  let loaded = load(registry)
+
+  function getOpenApi(features: LoadedFeatures): OpenApiDocument {
+    features.openApi ??= generateOpenApi(features.registry, { title: manifestConfig.appName, version, serverUrl: manifestConfig.appUrl })
+    return features.openApi
+  }
+
+  /**
+   * /__manifest and /__openapi.json are open in debug mode. In production
+   * they need `Authorization: Bearer <introspectionToken>`, and are hidden
+   * (404) when no token is configured.
+   */
+  function introspectionAccess(req: Request): 200 | 401 | 404 {
+    if (manifestConfig.debug) return 200
+    const token = manifestConfig.introspectionToken
+    if (!token) return 404
+    const given = Buffer.from(req.headers.get('authorization')?.replace(/^Bearer\s+/i, '') ?? '')
+    const expected = Buffer.from(token)
+    return given.length === expected.length && timingSafeEqual(given, expected) ? 200 : 401
   }
 
   // Static file serving (only if dist/ exists)
   const distDir = path.resolve(options.projectDir, frontendConfig.outputDir)
   const staticHandler = fs.existsSync(distDir)
-    ? createStaticHandler(distDir, { spaFallback: frontendConfig.spaFallback })
+    ? createStaticHandler(distDir, { spaFallback: frontendConfig.spaFallback, nonce: manifestConfig.securityHeaders })
     : null
 
   // Live reload SSE clients (dev mode only)
@@ -56,298 +161,322 @@ export async function createManifestServer(options: ManifestServerOptions) {
   // Start periodic cleanup of stale rate limit entries
   startCleanup()
 
-  let server: ReturnType<typeof Bun.serve>
-  try {
-    server = Bun.serve({
-    port: requestedPort,
-    fetch: async (req, server) => {
-      const url = new URL(req.url)
-      const method = req.method
-      const pathname = url.pathname
-
-      // Health check endpoint (no auth required)
-      if (pathname === '/__health') {
-        return Response.json({ status: 'ok', uptime: Math.round(process.uptime()) })
-      }
+  // Rate limit, auth, input and handle, shared with /__rpc and MCP tool calls
+  const handleCall = createCallHandler({ authenticate: options.authenticate, log })
 
-      // Dev-only SSE endpoint for live reload
-      if (pathname === '/__dev/reload' && manifestConfig.debug && frontendConfig.devReload) {
-        const stream = new ReadableStream({
-          start(controller) {
-            reloadClients.add(controller)
-            controller.enqueue('event: connected\ndata: connected\n\n')
-          },
-          cancel(controller) {
-            reloadClients.delete(controller)
-          },
-        })
-        return new Response(stream, {
-          headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' },
-        })
-      }
+  /** Stream features answer with SSE. HEAD sends the stream's headers without starting it. */
+  const sseStream: StreamRunner = async (feature, input, user, call) => {
+    const { requestId } = call
+    const sseHeaders = {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    }
 
-      // Try to match route (single pass handles match, 405, and 404)
-      const match = router.match(method, pathname)
+    if (call.method === 'HEAD') return new Response(null, { headers: sseHeaders })
 
-      if (match.kind === 'method_not_allowed') {
-        log.access({
-          timestamp: new Date().toISOString(), method, path: pathname, status: 405,
-          duration_ms: 0, ip: server.requestIP(req)?.address ?? undefined,
-          user_agent: req.headers.get('user-agent') ?? undefined,
-        })
-        return Response.json({ status: 405, message: 'Method not allowed' }, { status: 405 })
-      }
+    const stream = new ReadableStream({
+      async start(controller) {
+        let closed = false
 
-      if (match.kind === 'not_found') {
-        // Fallback to static files
-        if (staticHandler) {
-          const staticResponse = staticHandler(pathname)
-          if (staticResponse) {
-            log.access({
-              timestamp: new Date().toISOString(), method, path: pathname, status: staticResponse.status,
-              duration_ms: 0, ip: server.requestIP(req)?.address ?? undefined,
-              user_agent: req.headers.get('user-agent') ?? undefined,
-            })
-            return staticResponse
+        const safeEnqueue = (chunk: string) => {
+          if (closed) return
+          try {
+            controller.enqueue(textEncoder.encode(chunk))
+          } catch {
+            closed = true
           }
         }
 
-        log.access({
-          timestamp: new Date().toISOString(), method, path: pathname, status: 404,
-          duration_ms: 0, ip: server.requestIP(req)?.address ?? undefined,
-          user_agent: req.headers.get('user-agent') ?? undefined,
-        })
-        return Response.json({ status: 404, message: 'Not found' }, { status: 404 })
-      }
+        const emit: EmitFn = (...args: unknown[]) => {
+          if (args.length === 1) {
+            const data = typeof args[0] === 'string' ? args[0] : JSON.stringify(args[0])
+            safeEnqueue(`data: ${data}\n\n`)
+          } else {
+            const event = args[0] as string
+            const data = typeof args[1] === 'string' ? args[1] : JSON.stringify(args[1])
+            safeEnqueue(`event: ${event}\ndata: ${data}\n\n`)
+          }
+        }
 
-      const { feature, params } = match
-      const requestId = Bun.randomUUIDv7()
-      const start = performance.now()
+        const close = () => {
+          if (closed) return
+          closed = true
+          try { controller.close() } catch {}
+        }
 
-      // Rate limit check (before input parsing)
-      if (feature.rateLimit) {
-        const ip = server.requestIP(req)?.address ?? 'unknown'
-        const key = `${feature.name}:${ip}`
-        const result = checkRateLimit(key, feature.rateLimit)
-        if (!result.allowed) {
-          const durationMs = elapsed(start)
-          log.access({
-            timestamp: new Date().toISOString(), method, path: pathname, status: 429,
-            duration_ms: durationMs, ip, feature: feature.name, request_id: requestId,
-            user_agent: req.headers.get('user-agent') ?? undefined,
+        const fail = (message: string) => {
+          safeEnqueue(`event: error\ndata: ${JSON.stringify({ message })}\n\n`)
+          close()
+        }
+
+        // Initial meta event
+        safeEnqueue(`event: meta\ndata: ${JSON.stringify({ feature: feature.name, request_id: requestId })}\n\n`)
+
+        try {
+          await feature.stream({
+            input, user, emit, close, fail,
+            publish: call.events.publisherFor(requestId), urlFor: call.urlFor,
           })
+          close()
+        } catch (err) {
+          const message = err instanceof Error ? err.message : 'Internal server error'
+          fail(message)
           log.event({
-            type: 'rate-limit',
+            type: 'server-error',
             traceId: requestId,
             feature: feature.name,
-            route: `${method} ${pathname}`,
-            status: 429,
-          })
-          return Response.json(
-            {
-              status: 429,
-              message: 'Rate limit exceeded',
-              meta: { feature: feature.name, request_id: requestId, duration_ms: durationMs },
-            },
-            {
-              status: 429,
-              headers: {
-                'Retry-After': String(result.retryAfter),
-                'X-RateLimit-Limit': String(feature.rateLimit.max),
-                'X-RateLimit-Remaining': '0',
-              },
+            route: call.route,
+            status: 500,
+            error: {
+              message: err instanceof Error ? err.message : String(err),
+              stack: err instanceof Error ? err.stack : undefined,
             },
-          )
+            request: { input },
+          })
         }
-      }
+      },
+    })
 
-      const input: Record<string, unknown> = {}
+    // Logged as 200 at time-to-first-byte
+    return new Response(stream, { headers: sseHeaders })
+  }
 
-      try {
-        // Parse input from query params + JSON body + path params
+  /**
+   * POST /__rpc: calls features by name, including event and route-less
+   * features. Takes `{ feature, input }` or a batch array of them. Every call
+   * goes through handleCall() with its own request id; a batch answers 200
+   * with one envelope per call, in order.
+   */
+  async function handleRpc(req: Request, ip: string | undefined, features: LoadedFeatures): Promise<Response> {
+    const start = performance.now()
+    const logRpc = (status: number, error?: string) => log.access({
+      timestamp: new Date().toISOString(), method: req.method, path: '/__rpc', status,
+      duration_ms: elapsed(start), ip, user_agent: req.headers.get('user-agent') ?? undefined, error,
+    })
+
+    if (req.method !== 'POST') {
+      logRpc(405)
+      return Response.json({ status: 405, message: 'Method not allowed' }, { status: 405, headers: { Allow: 'POST' } })
+    }
 
-        // Query params
-        for (const [key, value] of url.searchParams) {
-          input[key] = value
-        }
+    // JSON only: a text/plain or form POST needs no CORS preflight, so
+    // accepting one would let any site call features with the user's cookies
+    const contentType = req.headers.get('content-type')
+    const read = isJsonContentType(contentType)
+      ? await readJsonBody(req, manifestConfig.maxBodySize)
+      : unsupportedContentType(contentType)
+    if (!('body' in read)) {
+      logRpc(read.status, read.message)
+      return Response.json({ status: read.status, message: read.message }, { status: read.status })
+    }
+    const body = read.body
 
-        // JSON body
-        if (req.body && req.headers.get('content-type')?.includes('application/json')) {
-          try {
-            const body = await req.json()
-            if (body && typeof body === 'object') {
-              Object.assign(input, body)
-            }
-          } catch {
-            const durationMs400 = elapsed(start)
-            log.access({
-              timestamp: new Date().toISOString(), method, path: pathname, status: 400,
-              duration_ms: durationMs400, ip: server.requestIP(req)?.address ?? undefined,
-              feature: feature.name, request_id: requestId,
-              user_agent: req.headers.get('user-agent') ?? undefined,
-            })
-            return Response.json(
-              { status: 400, message: 'Invalid JSON body', meta: { request_id: requestId, duration_ms: durationMs400 } },
-              { status: 400 },
-            )
-          }
-        }
+    const batch = Array.isArray(body)
+    const items: unknown[] = Array.isArray(body) ? body : [body]
+    const outcomes: CallOutcome[] = []
+    for (const item of items) {
+      outcomes.push(await rpcCall(req, ip, item, features))
+    }
+
+    if (!batch) {
+      const outcome = outcomes[0]!
+      return Response.json(outcome.body, { status: outcome.status, headers: outcome.headers })
+    }
+    return Response.json(outcomes.map((o) => o.body))
+  }
+
+  async function rpcCall(req: Request, ip: string | undefined, item: unknown, features: LoadedFeatures): Promise<CallOutcome> {
+    const requestId = Bun.randomUUIDv7()
+    const start = performance.now()
+    const { feature: name, input } = (item && typeof item === 'object' ? item : {}) as { feature?: unknown; input?: unknown }
+
+    const invalid = (status: number, message: string): CallOutcome => {
+      log.access({
+        timestamp: new Date().toISOString(), method: 'POST', path: '/__rpc', status,
+        duration_ms: elapsed(start), ip, request_id: requestId,
+        user_agent: req.headers.get('user-agent') ?? undefined,
+      })
+      return { status, body: { status, message, meta: { request_id: requestId, duration_ms: elapsed(start) } } }
+    }
+
+    if (typeof name !== 'string' || (input !== undefined && (!input || typeof input !== 'object' || Array.isArray(input)))) {
+      return invalid(400, 'Invalid call: expected { feature, input }')
+    }
+    const feature = features.registry[name]
+    if (!feature) return invalid(404, `Feature '${name}' not found`)
+    if (feature.type === 'stream') return invalid(400, `Feature '${name}' is a stream feature. Call it on its route.`)
+
+    const call: CallContext = {
+      req, method: 'POST', path: '/__rpc', route: `RPC ${name}`, ip, requestId, start,
+      events: features.events, urlFor: features.urlFor,
+    }
+    const result = await handleCall(feature, call, async () => ({ input: { ...(input as Record<string, unknown> | undefined) } }), { runStream: sseStream })
+    return result as CallOutcome
+  }
+
+  /** Everything the server answers, before security headers are added. */
+  async function handleRequest(req: Request, server: Bun.Server<undefined>): Promise<Response> {
+    const url = new URL(req.url)
+    const method = req.method
+    const pathname = url.pathname
+    const features = loaded
+
+    // Health check endpoint (no auth required)
+    if (pathname === '/__health') {
+      return Response.json({ status: 'ok', uptime: Math.round(process.uptime()) })
+    }
+
+    // Introspection: the loaded features and where they came from, and the
+    // OpenAPI 3.1 description of every routed feature
+    if ((pathname === '/__manifest' || pathname === '/__openapi.json') && method === 'GET') {
+      const access = introspectionAccess(req)
+      if (access === 404) return Response.json({ status: 404, message: 'Not found' }, { status: 404 })
+      if (access === 401) {
+        return Response.json({ status: 401, message: 'Authentication required' }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } })
+      }
+      if (pathname === '/__openapi.json') return Response.json(getOpenApi(features))
+      return Response.json(describeRegistry(features.registry, { name: manifestConfig.appName, version }))
+    }
 
-        // Path params
-        Object.assign(input, params)
+    // Dev-only SSE endpoint for live reload
+    if (pathname === '/__dev/reload' && manifestConfig.debug && frontendConfig.devReload) {
+      const stream = new ReadableStream({
+        start(controller) {
+          reloadClients.add(controller)
+          controller.enqueue('event: connected\ndata: connected\n\n')
+        },
+        cancel(controller) {
+          reloadClients.delete(controller)
+        },
+      })
+      return new Response(stream, {
+        headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' },
+      })
+    }
+
+    // MCP HTTP transport (opt-in via config/manifest.ts)
+    if (pathname === '/__mcp' && manifestConfig.mcpHttp) {
+      const start = performance.now()
+      const ip = server.requestIP(req)?.address ?? undefined
+      const response = await handleMcpHttp(features.mcp, req, ip ?? 'unknown')
+      log.access({
+        timestamp: new Date().toISOString(), method, path: pathname, status: response.status,
+        duration_ms: elapsed(start), ip, user_agent: req.headers.get('user-agent') ?? undefined,
+      })
+      return response
+    }
+
+    // Call features by name (opt-out via config/manifest.ts)
+    if (pathname === '/__rpc' && manifestConfig.rpc) {
+      return handleRpc(req, server.requestIP(req)?.address ?? undefined, features)
+    }
+
+    // Try to match route (single pass handles match, 405, and 404)
+    const match = features.router.match(method, pathname)
+
+    if (match.kind === 'method_not_allowed') {
+      const allow = allowHeader(match.allowed)
+      // OPTIONS is answered for every routed path: no feature declares it
+      const status = method === 'OPTIONS' ? 204 : 405
+      log.access({
+        timestamp: new Date().toISOString(), method, path: pathname, status,
+        duration_ms: 0, ip: server.requestIP(req)?.address ?? undefined,
+        user_agent: req.headers.get('user-agent') ?? undefined,
+      })
+      if (status === 204) {
+        // CORS preflight: the settings of the feature the real request would reach
+        const origin = req.headers.get('origin')
+        const requestMethod = req.headers.get('access-control-request-method')
+        const target = origin && requestMethod ? features.router.match(requestMethod, pathname) : null
+        const cors = target?.kind === 'matched'
+          ? preflightHeaders(resolveCors(target.feature), origin!, requestMethod!, allow.split(', '))
+          : {}
+        return new Response(null, { status, headers: { Allow: allow, ...cors } })
+      }
+      return Response.json({ status: 405, message: 'Method not allowed' }, { status: 405, headers: { Allow: allow } })
+    }
 
-        // Validate
-        const errors = validateInput(feature.input, input)
-        if (Object.keys(errors).length > 0) {
-          const durationMs = elapsed(start)
+    if (match.kind === 'not_found') {
+      // Fallback to static files
+      if (staticHandler) {
+        const staticResponse = staticHandler(pathname)
+        if (staticResponse) {
           log.access({
-            timestamp: new Date().toISOString(), method, path: pathname, status: 422,
-            duration_ms: durationMs, ip: server.requestIP(req)?.address ?? undefined,
-            feature: feature.name, request_id: requestId, input: JSON.stringify(input),
+            timestamp: new Date().toISOString(), method, path: pathname, status: staticResponse.status,
+            duration_ms: 0, ip: server.requestIP(req)?.address ?? undefined,
             user_agent: req.headers.get('user-agent') ?? undefined,
           })
-          return Response.json(
-            {
-              status: 422,
-              message: 'Validation failed',
-              errors,
-              meta: { feature: feature.name, request_id: requestId, duration_ms: durationMs },
-            },
-            { status: 422 },
-          )
+          return staticResponse
         }
+      }
 
-        // Stream features return SSE responses
-        if (feature.type === 'stream') {
-          const stream = new ReadableStream({
-            async start(controller) {
-              let closed = false
-
-              const safeEnqueue = (chunk: string) => {
-                if (closed) return
-                try {
-                  controller.enqueue(textEncoder.encode(chunk))
-                } catch {
-                  closed = true
-                }
-              }
-
-              const emit: import('./feature').EmitFn = (...args: unknown[]) => {
-                if (args.length === 1) {
-                  const data = typeof args[0] === 'string' ? args[0] : JSON.stringify(args[0])
-                  safeEnqueue(`data: ${data}\n\n`)
-                } else {
-                  const event = args[0] as string
-                  const data = typeof args[1] === 'string' ? args[1] : JSON.stringify(args[1])
-                  safeEnqueue(`event: ${event}\ndata: ${data}\n\n`)
-                }
-              }
-
-              const close = () => {
-                if (closed) return
-                closed = true
-                try { controller.close() } catch {}
-              }
-
-              const fail = (message: string) => {
-                safeEnqueue(`event: error\ndata: ${JSON.stringify({ message })}\n\n`)
-                close()
-              }
-
-              // Initial meta event
-              safeEnqueue(`event: meta\ndata: ${JSON.stringify({ feature: feature.name, request_id: requestId })}\n\n`)
-
-              try {
-                await feature.stream({ input, emit, close, fail })
-                close()
-              } catch (err) {
-                const message = err instanceof Error ? err.message : 'Internal server error'
-                fail(message)
-                log.event({
-                  type: 'server-error',
-                  traceId: requestId,
-                  feature: feature.name,
-                  route: `${method} ${pathname}`,
-                  status: 500,
-                  error: {
-                    message: err instanceof Error ? err.message : String(err),
-                    stack: err instanceof Error ? err.stack : undefined,
-                  },
-                  request: { input },
-                })
-              }
-            },
-          })
+      log.access({
+        timestamp: new Date().toISOString(), method, path: pathname, status: 404,
+        duration_ms: 0, ip: server.requestIP(req)?.address ?? undefined,
+        user_agent: req.headers.get('user-agent') ?? undefined,
+      })
+      return Response.json({ status: 404, message: 'Not found' }, { status: 404 })
+    }
 
-          // Log access for stream features (time-to-first-byte, status 200)
-          log.access({
-            timestamp: new Date().toISOString(), method, path: pathname, status: 200,
-            duration_ms: elapsed(start), ip: server.requestIP(req)?.address ?? undefined,
-            feature: feature.name, request_id: requestId, input: JSON.stringify(input),
-            user_agent: req.headers.get('user-agent') ?? undefined,
-          })
+    const { feature, params } = match
 
-          return new Response(stream, {
-            headers: {
-              'Content-Type': 'text/event-stream',
-              'Cache-Control': 'no-cache',
-              'Connection': 'keep-alive',
-            },
-          })
-        }
+    // Parse input from query params + JSON body + path params.
+    // Query and path values arrive as strings and are coerced to the
+    // schema's types; JSON body values stay strict.
+    const readInput = async (): Promise<{ input: Record<string, unknown> } | { status: number; message: string }> => {
+      const input: Record<string, unknown> = {}
 
-        // Execute request features
-        const helpers = createResultHelpers()
-        const result = await feature.handle({ input, ok: helpers.ok, fail: helpers.fail })
-        const durationMs = elapsed(start)
-        const envelope = toEnvelope(result, { featureName: feature.name, requestId, durationMs })
-
-        log.access({
-          timestamp: new Date().toISOString(), method, path: pathname, status: result.status,
-          duration_ms: durationMs, ip: server.requestIP(req)?.address ?? undefined,
-          feature: feature.name, request_id: requestId, input: JSON.stringify(input),
-          error: result.status >= 500 ? (result as any).message : undefined,
-          user_agent: req.headers.get('user-agent') ?? undefined,
-        })
-
-        return Response.json(envelope, { status: result.status })
-      } catch (err) {
-        const durationMs = elapsed(start)
-        const errorMsg = err instanceof Error ? err.message : String(err)
-        log.access({
-          timestamp: new Date().toISOString(), method, path: pathname, status: 500,
-          duration_ms: durationMs, ip: server.requestIP(req)?.address ?? undefined,
-          feature: feature.name, request_id: requestId, input: JSON.stringify(input),
-          error: errorMsg, user_agent: req.headers.get('user-agent') ?? undefined,
-        })
-        log.event({
-          type: 'server-error',
-          traceId: requestId,
-          feature: feature.name,
-          route: `${method} ${pathname}`,
-          status: 500,
-          error: {
-            message: errorMsg,
-            stack: err instanceof Error ? err.stack : undefined,
-          },
-          request: { input },
-        })
-        return Response.json(
-          {
-            status: 500,
-            message: 'Internal server error',
-            meta: { feature: feature.name, request_id: requestId, duration_ms: durationMs },
-          },
-          { status: 500 },
-        )
+      // Query params
+      assignOwn(input, coerceInput(feature.input, collectSearchParams(url.searchParams)))
+
+      // JSON body, up to the feature's size limit. POST, PUT and PATCH
+      // refuse other content types; GET and DELETE ignore them.
+      if (hasBody(req)) {
+        const contentType = req.headers.get('content-type')
+        if (isJsonContentType(contentType)) {
+          const read = await readJsonBody(req, feature.maxBodySize ?? manifestConfig.maxBodySize)
+          if (!('body' in read)) return read
+          if (read.body && typeof read.body === 'object') {
+            assignOwn(input, read.body as Record<string, unknown>)
+          }
+        } else if (BODY_METHODS.has(method as HttpMethod)) {
+          return unsupportedContentType(contentType)
+        }
       }
-    },
+
+      // Path params
+      assignOwn(input, coerceInput(feature.input, params))
+      return { input }
+    }
+
+    const call: CallContext = {
+      req, method, path: pathname, route: `${method} ${pathname}`,
+      ip: server.requestIP(req)?.address ?? undefined,
+      requestId: Bun.randomUUIDv7(), start: performance.now(),
+      events: features.events, urlFor: features.urlFor,
+    }
+    // HEAD runs the GET feature once; Bun drops the body and keeps Content-Length
+    const result = await handleCall(feature, call, readInput, { allowKeys: Object.keys(params), runStream: sseStream })
+    const cors = corsHeaders(resolveCors(feature), req.headers.get('origin'))
+    if (result instanceof Response) {
+      for (const [name, value] of Object.entries(cors)) result.headers.set(name, value)
+      return result
+    }
+    return Response.json(result.body, { status: result.status, headers: { ...result.headers, ...cors } })
+  }
+
+  let server: ReturnType<typeof Bun.serve>
+  try {
+    server = Bun.serve({
+    port: requestedPort,
+    fetch: async (req, server) => withSecurityHeaders(await handleRequest(req, server)),
   })
   } catch (err: any) {
     if (err?.code === 'EADDRINUSE' || err?.message?.includes('address already in use') || err?.errno === -48) {
       console.error(`\n⚠ Port ${requestedPort} is already in use.`)
       console.error(`  Check what's using it: lsof -i :${requestedPort}`)
-      console.error(`  Or use a different port: PORT=${requestedPort + 1} bun --hot index.ts\n`)
+      console.error(`  Or use a different port: PORT=${requestedPort + 1} bun run dev\n`)
       process.exit(1)
     }
     throw err
@@ -364,7 +493,7 @@ export async function createManifestServer(options: ManifestServerOptions) {
   }
 
   // In dev mode, watch frontend/ and trigger live reload automatically.
-  // This makes dev mode single-process: just `bun --hot index.ts`.
+  // This makes dev mode single-process: just `bun run dev`.
   if (manifestConfig.debug && frontendConfig.devReload) {
     const frontendDir = path.resolve(options.projectDir, 'frontend')
     if (fs.existsSync(frontendDir)) {
@@ -372,11 +501,42 @@ export async function createManifestServer(options: ManifestServerOptions) {
     }
   }
 
+  /**
+   * Re-imports every feature module and swaps in the new registry. Keeps the
+   * current features if any module fails to load. Returns the route changes.
+   */
+  async function reloadFeatures(): Promise<RouteChange[]> {
+    const start = performance.now()
+    const next = await scan({ version: Bun.randomUUIDv7(), strict: true })
+    reportCheckIssues(next)
+    const changes = diffRoutes(loaded.registry, next)
+    loaded = load(next)
+
+    const ms = Math.round(performance.now() - start)
+    console.log(`[manifest] Reloaded ${Object.keys(next).length} feature(s) in ${ms}ms`)
+    for (const change of changes) console.log(`[manifest]   ${formatRouteChange(change)}`)
+    notifyReload()
+    return changes
+  }
+
+  // In dev mode, re-import features when they change instead of restarting.
+  // Under `bun --hot` a feature edit re-runs index.ts anyway, and each run
+  // would add another watcher, so feature reload stays off there.
+  const underBunHot = process.execArgv.includes('--hot')
+  if (manifestConfig.debug && manifestConfig.hotReload && underBunHot) {
+    console.warn('[manifest] Feature hot reload is off under `bun --hot`, which restarts the server on every edit. Use `bun run dev`.')
+  }
+  const stopWatchingFeatures = manifestConfig.debug && manifestConfig.hotReload && !underBunHot
+    ? watchFeatures(options.projectDir, async () => { await reloadFeatures() }, options.featuresDir ? [options.featuresDir] : undefined)
+    : null
+
   return {
     port: server.port,
     stop() {
+      stopWatchingFeatures?.()
       server.stop()
     },
     notifyReload,
+    reloadFeatures,
   }
 }
@@ -4,10 +4,17 @@
  */
 
 import { scanFeatures } from './scanner'
-import { validateInput } from './validator'
+import { validateOutput } from './validator'
+import { prepareInput } from './input'
 import { createResultHelpers } from './envelope'
-import type { FeatureResult, StreamFeatureDef } from './feature'
+import { createEventBus, type EventBus } from './events'
+import { createUrlFor } from './urls'
+import type { AnyFeatureDef, FeatureCallInput, FeatureDef, FeatureResult, StreamFeatureDef } from './feature'
 import type { FeatureRegistry } from './scanner'
+import type { AuthUser } from './auth'
+import { sparkDb, type SparkEvent } from '../services/sparkDb'
+import manifestConfig from '../config/manifest'
+import sparkConfig from '../config/spark'
 
 export interface TestResult {
   success: boolean
@@ -15,6 +22,8 @@ export interface TestResult {
   message: string
   data: any
   errors: Record<string, string>
+  /** Set in debug mode when `data` does not match the feature's output schema. */
+  outputErrors?: Record<string, string>
 }
 
 export interface StreamEvent {
@@ -22,14 +31,43 @@ export interface StreamEvent {
   data: unknown
 }
 
+/**
+ * call() and stream() accept either a feature name or the imported feature
+ * definition. Passing the definition type-checks `input` against its schema
+ * as a caller sends it (see FeatureCallInput): fields with a default may be
+ * left out and toDate fields take strings.
+ *   client.call(helloWorld, { name: 'Jane' })
+ */
 export interface TestClient {
+  call<F extends FeatureDef<any>>(feature: F, input: FeatureCallInput<F>): Promise<TestResult>
   call(featureName: string, input: Record<string, unknown>): Promise<TestResult>
+  stream<F extends StreamFeatureDef<any>>(feature: F, input: FeatureCallInput<F>): Promise<StreamEvent[]>
   stream(featureName: string, input: Record<string, unknown>): Promise<StreamEvent[]>
   getRegistry(): Promise<FeatureRegistry>
+  /**
+   * Publishes a domain event, waits for every matching event feature (and any
+   * events they publish) to finish, and returns the failures they reported.
+   */
+  publish(event: string, payload?: Record<string, unknown>): Promise<SparkEvent[]>
+  /** Returns a client that calls features as the given user (null = anonymous). */
+  as(user: AuthUser | null): TestClient
+}
+
+interface ClientState {
+  featuresDir: string
+  getRegistry: () => Promise<FeatureRegistry>
+  getBus: () => Promise<EventBus>
+  failures: SparkEvent[]
 }
 
+/**
+ * Creates a test client. Calls are anonymous unless `user` is given or the
+ * client is derived with `client.as(user)`. Features with
+ * `authentication: 'required'` return 401 for anonymous calls.
+ */
 export function createTestClient(options: {
   featuresDir: string
+  user?: AuthUser | null
 }): TestClient {
   let registryPromise: Promise<FeatureRegistry> | null = null
 
@@ -40,16 +78,45 @@ export function createTestClient(options: {
     return registryPromise
   }
 
+  const failures: SparkEvent[] = []
+  let busPromise: Promise<EventBus> | null = null
+
+  async function getBus(): Promise<EventBus> {
+    if (!busPromise) {
+      busPromise = getRegistry().then((registry) => createEventBus(registry, { onError: (e) => failures.push(e) }))
+    }
+    return busPromise
+  }
+
+  return buildClient({ featuresDir: options.featuresDir, getRegistry, getBus, failures }, options.user ?? null)
+}
+
+function buildClient(state: ClientState, user: AuthUser | null): TestClient {
+  const { featuresDir, getRegistry, getBus } = state
+
   return {
-    async call(featureName: string, input: Record<string, unknown>): Promise<TestResult> {
+    async call(featureOrName: string | AnyFeatureDef, input: Record<string, unknown>): Promise<TestResult> {
+      const featureName = typeof featureOrName === 'string' ? featureOrName : featureOrName.name
       const registry = await getRegistry()
       const feature = registry[featureName]
 
       if (!feature) {
-        throw new Error(`Feature "${featureName}" not found in ${options.featuresDir}`)
+        throw new Error(`Feature "${featureName}" not found in ${featuresDir}`)
       }
 
-      const validationErrors = validateInput(feature.input, input)
+      if (feature.authentication === 'required' && !user) {
+        return {
+          success: false,
+          status: 401,
+          message: 'Authentication required',
+          data: null,
+          errors: {},
+        }
+      }
+
+      const prepared = prepareInput(feature, input)
+      input = prepared.input
+      const validationErrors = prepared.errors
       if (Object.keys(validationErrors).length > 0) {
         return {
           success: false,
@@ -64,30 +131,67 @@ export function createTestClient(options: {
       if (feature.type === 'stream') {
         throw new Error(`Feature '${featureName}' is a stream feature. Use client.stream() instead of client.call().`)
       }
-      const result = await feature.handle({ input, ok, fail })
-
-      return {
+      const bus = await getBus()
+      const result = await feature.handle({
+        input,
+        user: feature.authentication === 'none' ? null : user,
+        ok,
+        fail,
+        publish: bus.publisherFor(`test-${featureName}`),
+        urlFor: createUrlFor(registry),
+      })
+
+      const testResult: TestResult = {
         success: result.success,
         status: result.status,
         message: result.message,
         data: result.data,
         errors: result.errors,
       }
+
+      // Debug mode: check ok() data against the declared output schema
+      if (manifestConfig.debug && feature.output && result.success) {
+        const outputErrors = validateOutput(feature.output, result.data)
+        if (Object.keys(outputErrors).length > 0) {
+          testResult.outputErrors = outputErrors
+          if (sparkConfig.enabled && sparkConfig.watch.serverErrors) {
+            try {
+              sparkDb.logEvent({
+                type: 'output-mismatch',
+                traceId: `test-${featureName}`,
+                feature: featureName,
+                status: result.status,
+                error: { message: `Output does not match schema: ${JSON.stringify(outputErrors)}` },
+                request: { input },
+              })
+            } catch {}
+          }
+        }
+      }
+
+      return testResult
     },
 
-    async stream(featureName: string, input: Record<string, unknown>): Promise<StreamEvent[]> {
+    async stream(featureOrName: string | AnyFeatureDef, input: Record<string, unknown>): Promise<StreamEvent[]> {
+      const featureName = typeof featureOrName === 'string' ? featureOrName : featureOrName.name
       const registry = await getRegistry()
       const feature = registry[featureName]
 
       if (!feature) {
-        throw new Error(`Feature "${featureName}" not found in ${options.featuresDir}`)
+        throw new Error(`Feature "${featureName}" not found in ${featuresDir}`)
       }
 
       if (feature.type !== 'stream') {
         throw new Error(`Feature "${featureName}" is not a stream feature (type: "${feature.type || 'request'}")`)
       }
 
-      const validationErrors = validateInput(feature.input, input)
+      if (feature.authentication === 'required' && !user) {
+        throw new Error(`Feature "${featureName}" requires authentication. Use client.as(user).stream() instead.`)
+      }
+
+      const prepared = prepareInput(feature, input)
+      input = prepared.input
+      const validationErrors = prepared.errors
       if (Object.keys(validationErrors).length > 0) {
         throw new Error(`Validation failed: ${JSON.stringify(validationErrors)}`)
       }
@@ -111,8 +215,17 @@ export function createTestClient(options: {
         closed = true
       }
 
+      const bus = await getBus()
       const streamFeature = feature as StreamFeatureDef
-      await streamFeature.stream({ input, emit, close, fail })
+      await streamFeature.stream({
+        input,
+        user: feature.authentication === 'none' ? null : user,
+        emit,
+        close,
+        fail,
+        publish: bus.publisherFor(`test-${featureName}`),
+        urlFor: createUrlFor(registry),
+      })
 
       return events
     },
@@ -120,5 +233,17 @@ export function createTestClient(options: {
     getRegistry() {
       return getRegistry()
     },
+
+    async publish(event: string, payload?: Record<string, unknown>): Promise<SparkEvent[]> {
+      const bus = await getBus()
+      const start = state.failures.length
+      bus.publish(event, payload, `test-${event}`)
+      await bus.idle()
+      return state.failures.slice(start)
+    },
+
+    as(asUser: AuthUser | null) {
+      return buildClient(state, asUser)
+    },
   }
 }
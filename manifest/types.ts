@@ -6,12 +6,37 @@
  * Every field MUST have a description explaining what it's for.
  */
 
-export type FieldType = 'string' | 'integer' | 'number' | 'boolean' | 'array'
+export type FieldType = 'string' | 'integer' | 'number' | 'boolean' | 'array' | 'object' | 'enum' | 'literal' | 'union'
+
+/**
+ * A custom validation rule. The description is published with the feature
+ * so agents can read the rule without running it.
+ */
+export interface FieldRule<V = unknown> {
+  description: string
+  /** Error code reported when check() fails. Defaults to 'invalid'. */
+  code?: string
+  check(value: V): boolean
+}
+
+/**
+ * A cross-field rule on a feature's whole input. Runs after every field has
+ * passed validation; check() returns errors keyed by field path, or nothing
+ * when the input is valid.
+ */
+export interface InputRule<TInput = Record<string, unknown>> {
+  description: string
+  check(input: TInput): Record<string, string> | null | undefined | void
+}
 
 export interface BaseFieldDef {
   type: FieldType
   description: string
   required: boolean
+  /** Value used when the field is missing or null. Applied by normalizeInput(). */
+  default?: unknown
+  /** Extra rules, checked in order once the built-in checks pass. */
+  refine?: FieldRule[]
 }
 
 export interface StringFieldDef extends BaseFieldDef {
@@ -20,6 +45,12 @@ export interface StringFieldDef extends BaseFieldDef {
   maxLength?: number
   format?: 'email' | 'url' | 'uuid' | 'date' | 'datetime'
   pattern?: string
+  /** Strip leading and trailing whitespace before validation. */
+  trim?: boolean
+  /** Lowercase the value before validation. */
+  lowercase?: boolean
+  /** With format 'date' or 'datetime', hand the handler a Date instead of a string. */
+  toDate?: boolean
 }
 
 export interface IntegerFieldDef extends BaseFieldDef {
@@ -40,18 +71,140 @@ export interface BooleanFieldDef extends BaseFieldDef {
 
 export interface ArrayFieldDef extends BaseFieldDef {
   type: 'array'
+  /** Type name of each item. Derived from `items` when a full item schema is given. */
   itemType: string
+  /** Full schema each item is validated against (e.g. t.object() for lists of records). */
+  items?: FieldDef
   minItems?: number
   maxItems?: number
 }
 
-export type FieldDef = StringFieldDef | IntegerFieldDef | NumberFieldDef | BooleanFieldDef | ArrayFieldDef
+export interface ObjectFieldDef extends BaseFieldDef {
+  type: 'object'
+  fields: Record<string, FieldDef>
+}
+
+export type LiteralValue = string | number | boolean
+
+export interface EnumFieldDef extends BaseFieldDef {
+  type: 'enum'
+  values: readonly (string | number)[]
+}
+
+export interface LiteralFieldDef extends BaseFieldDef {
+  type: 'literal'
+  value: LiteralValue
+}
+
+/**
+ * One of several variants. With a `discriminator`, every variant is a
+ * t.object() whose discriminator field is a t.literal() (or t.enum()), and
+ * the value's discriminator picks the variant. Without one, the first
+ * variant the value validates against wins.
+ */
+export interface UnionFieldDef extends BaseFieldDef {
+  type: 'union'
+  discriminator?: string
+  variants: readonly FieldDef[]
+}
+
+export type FieldDef =
+  | StringFieldDef
+  | IntegerFieldDef
+  | NumberFieldDef
+  | BooleanFieldDef
+  | ArrayFieldDef
+  | ObjectFieldDef
+  | EnumFieldDef
+  | LiteralFieldDef
+  | UnionFieldDef
 
 /**
  * Input schema is a plain object mapping field names to field definitions.
  */
 export type InputSchemaDef = Record<string, FieldDef>
 
+/**
+ * What to do with input keys the schema doesn't declare:
+ *   'strip'  — drop them before the handler runs
+ *   'reject' — 422 with an `unknown_field` error per key
+ *   'allow'  — pass them through to the handler
+ * Applies to nested t.object() fields too. Union values are not checked.
+ */
+export type UnknownFieldsPolicy = 'strip' | 'reject' | 'allow'
+
+/**
+ * Output schema describes the fields of the `data` a feature passes to ok().
+ * Same shape as an input schema; nested objects use t.object().
+ */
+export type OutputSchemaDef = Record<string, FieldDef>
+
+// --- Input type inference ---
+
+type ArrayItemValue<I> =
+  I extends 'string' ? string :
+  I extends 'integer' | 'number' ? number :
+  I extends 'boolean' ? boolean :
+  unknown
+
+/** The TypeScript type of a value accepted by a field definition. */
+export type FieldValue<F> =
+  F extends { type: 'string'; toDate: true; format: 'date' | 'datetime' } ? Date :
+  F extends { type: 'string' } ? string :
+  F extends { type: 'integer' | 'number' } ? number :
+  F extends { type: 'boolean' } ? boolean :
+  F extends { type: 'array'; items: infer It extends FieldDef } ? FieldValue<It>[] :
+  F extends { type: 'array'; itemType: infer I } ? ArrayItemValue<I>[] :
+  F extends { type: 'object'; fields: infer S extends InputSchemaDef } ? InferInput<S> :
+  F extends { type: 'enum'; values: readonly (infer V)[] } ? V :
+  F extends { type: 'literal'; value: infer V } ? V :
+  F extends { type: 'union'; variants: readonly (infer V)[] } ? (FieldDef extends V ? unknown : FieldValue<V>) :
+  unknown
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {}
+
+/** Fields that always have a value once input is normalized. */
+type AlwaysPresent<F> = F extends { required: true } ? true : F extends { default: {} } ? true : false
+
+/**
+ * The handler input type derived from an input schema.
+ * Fields with `required: true` or a `default` are non-optional, all others
+ * are `T | undefined`.
+ */
+export type InferInput<S extends InputSchemaDef> = Simplify<
+  { [K in keyof S as AlwaysPresent<S[K]> extends true ? K : never]: FieldValue<S[K]> } &
+  { [K in keyof S as AlwaysPresent<S[K]> extends true ? never : K]?: FieldValue<S[K]> | undefined }
+>
+
+/** The TypeScript type a caller sends for a field: before defaults and transforms, so toDate fields take the date string. */
+export type FieldCallValue<F> =
+  F extends { type: 'string' } ? string :
+  F extends { type: 'integer' | 'number' } ? number :
+  F extends { type: 'boolean' } ? boolean :
+  F extends { type: 'array'; items: infer It extends FieldDef } ? FieldCallValue<It>[] :
+  F extends { type: 'array'; itemType: infer I } ? ArrayItemValue<I>[] :
+  F extends { type: 'object'; fields: infer S extends InputSchemaDef } ? InferCallInput<S> :
+  F extends { type: 'enum'; values: readonly (infer V)[] } ? V :
+  F extends { type: 'literal'; value: infer V } ? V :
+  F extends { type: 'union'; variants: readonly (infer V)[] } ? (FieldDef extends V ? unknown : FieldCallValue<V>) :
+  unknown
+
+/** Fields a caller must send: required ones without a default. */
+type CallerMustSend<F> = F extends { required: true } ? (F extends { default: {} } ? false : true) : false
+
+/**
+ * The input a caller sends for a schema, as the generated API client types
+ * it. Fields with `required: true` and no `default` are non-optional, all
+ * others may be left out.
+ */
+export type InferCallInput<S extends InputSchemaDef> = Simplify<
+  { [K in keyof S as CallerMustSend<S[K]> extends true ? K : never]: FieldCallValue<S[K]> } &
+  { [K in keyof S as CallerMustSend<S[K]> extends true ? never : K]?: FieldCallValue<S[K]> | undefined }
+>
+
+/** A builder's return type: the field definition with `required` and `default` kept literal. */
+type Built<F, R, D> = F & { required: NoInfer<R>; default: NoInfer<D> }
+
 /**
  * Type builders for input field definitions.
  *
@@ -60,82 +213,230 @@ export type InputSchemaDef = Record<string, FieldDef>
  *     email: t.string({ description: 'User email.', required: true, format: 'email' }),
  *     age: t.integer({ description: 'User age.', min: 0 }),
  *   }
+ *
+ * Arrays take either a scalar `itemType` or a full `items` schema:
+ *   tags: t.array({ description: 'Tags.', itemType: 'string' }),
+ *   contacts: t.array({ description: 'Contacts.', items: t.object({ description: 'Contact.', fields: { ... } }) }),
+ *
+ * One-of-N choices use t.enum(); variant shapes use t.union() with t.literal()
+ * discriminators:
+ *   status: t.enum({ description: 'Status.', values: ['draft', 'published'] }),
+ *   payment: t.union({ description: 'Payment.', discriminator: 'method', variants: [
+ *     t.object({ description: 'Card.', fields: { method: t.literal({ description: 'Card.', value: 'card', required: true }), ... } }),
+ *     t.object({ description: 'Invoice.', fields: { method: t.literal({ description: 'Invoice.', value: 'invoice', required: true }), ... } }),
+ *   ] }),
+ *
+ * Every builder accepts a `default`, used when the field is missing, and
+ * `refine` rules for checks the built-in constraints can't express:
+ *   endsWithCom: t.string({ description: 'Domain.', refine: [
+ *     { description: 'Must be a .com domain.', code: 'not_com', check: (v) => v.endsWith('.com') },
+ *   ] }),
+ *
+ * String fields can opt into `trim`, `lowercase` and (for date/datetime
+ * formats) `toDate` transforms. Defaults and transforms are applied by
+ * normalizeInput() before validation, so handlers receive the final values.
+ *
+ * Builders keep `required`, `default`, array item types, enum values and
+ * literals as literal types so defineFeature() can infer the handler's input
+ * type from the schema, including narrowing on union discriminators.
  */
 export const t = {
-  string(opts: {
+  string<
+    R extends boolean = false,
+    D extends string | undefined = undefined,
+    T extends boolean = false,
+    Fm extends StringFieldDef['format'] = undefined,
+  >(opts: {
     description: string
-    required?: boolean
+    required?: R
+    default?: D
+    refine?: FieldRule<T extends true ? (Fm extends 'date' | 'datetime' ? Date : string) : string>[]
     minLength?: number
     maxLength?: number
-    format?: 'email' | 'url' | 'uuid' | 'date' | 'datetime'
+    format?: Fm
     pattern?: string
-  }): StringFieldDef {
+    trim?: boolean
+    lowercase?: boolean
+    toDate?: T
+  }): Built<StringFieldDef, R, D> & { toDate: NoInfer<T>; format: NoInfer<Fm> } {
     return {
       type: 'string',
       description: opts.description,
-      required: opts.required ?? false,
+      required: (opts.required ?? false) as R,
+      ...(opts.default !== undefined && { default: opts.default }),
+      ...(opts.refine !== undefined && { refine: opts.refine as FieldRule[] }),
       ...(opts.minLength !== undefined && { minLength: opts.minLength }),
       ...(opts.maxLength !== undefined && { maxLength: opts.maxLength }),
       ...(opts.format !== undefined && { format: opts.format }),
       ...(opts.pattern !== undefined && { pattern: opts.pattern }),
-    }
+      ...(opts.trim !== undefined && { trim: opts.trim }),
+      ...(opts.lowercase !== undefined && { lowercase: opts.lowercase }),
+      ...(opts.toDate !== undefined && { toDate: opts.toDate }),
+    } as Built<StringFieldDef, R, D> & { toDate: T; format: Fm }
   },
 
-  integer(opts: {
+  integer<R extends boolean = false, D extends number | undefined = undefined>(opts: {
     description: string
-    required?: boolean
+    required?: R
+    default?: D
+    refine?: FieldRule<number>[]
     min?: number
     max?: number
-  }): IntegerFieldDef {
+  }): Built<IntegerFieldDef, R, D> {
     return {
       type: 'integer',
       description: opts.description,
-      required: opts.required ?? false,
+      required: (opts.required ?? false) as R,
+      ...(opts.default !== undefined && { default: opts.default }),
+      ...(opts.refine !== undefined && { refine: opts.refine as FieldRule[] }),
       ...(opts.min !== undefined && { min: opts.min }),
       ...(opts.max !== undefined && { max: opts.max }),
-    }
+    } as Built<IntegerFieldDef, R, D>
   },
 
-  number(opts: {
+  number<R extends boolean = false, D extends number | undefined = undefined>(opts: {
     description: string
-    required?: boolean
+    required?: R
+    default?: D
+    refine?: FieldRule<number>[]
     min?: number
     max?: number
-  }): NumberFieldDef {
+  }): Built<NumberFieldDef, R, D> {
     return {
       type: 'number',
       description: opts.description,
-      required: opts.required ?? false,
+      required: (opts.required ?? false) as R,
+      ...(opts.default !== undefined && { default: opts.default }),
+      ...(opts.refine !== undefined && { refine: opts.refine as FieldRule[] }),
       ...(opts.min !== undefined && { min: opts.min }),
       ...(opts.max !== undefined && { max: opts.max }),
-    }
+    } as Built<NumberFieldDef, R, D>
   },
 
-  boolean(opts: {
+  boolean<R extends boolean = false, D extends boolean | undefined = undefined>(opts: {
     description: string
-    required?: boolean
-  }): BooleanFieldDef {
+    required?: R
+    default?: D
+    refine?: FieldRule<boolean>[]
+  }): Built<BooleanFieldDef, R, D> {
     return {
       type: 'boolean',
       description: opts.description,
-      required: opts.required ?? false,
-    }
+      required: (opts.required ?? false) as R,
+      ...(opts.default !== undefined && { default: opts.default }),
+      ...(opts.refine !== undefined && { refine: opts.refine as FieldRule[] }),
+    } as Built<BooleanFieldDef, R, D>
   },
 
-  array(opts: {
+  array<
+    R extends boolean = false,
+    I extends string = string,
+    It extends FieldDef | undefined = undefined,
+    D extends unknown[] | undefined = undefined,
+  >(opts: {
     description: string
-    required?: boolean
-    itemType: string
+    required?: R
+    default?: D
+    refine?: FieldRule<FieldValue<{ type: 'array'; itemType: I; items: It }>>[]
+    itemType?: I
+    items?: It
     minItems?: number
     maxItems?: number
-  }): ArrayFieldDef {
+  }): Built<ArrayFieldDef, R, D> & { itemType: NoInfer<I>; items: NoInfer<It> } {
+    const itemType = opts.itemType ?? opts.items?.type
+    if (!itemType) throw new Error(`t.array() needs itemType or items (${opts.description})`)
     return {
       type: 'array',
       description: opts.description,
-      required: opts.required ?? false,
-      itemType: opts.itemType,
+      required: (opts.required ?? false) as R,
+      ...(opts.default !== undefined && { default: opts.default }),
+      ...(opts.refine !== undefined && { refine: opts.refine as FieldRule[] }),
+      itemType: itemType as I,
+      ...(opts.items !== undefined && { items: opts.items }),
       ...(opts.minItems !== undefined && { minItems: opts.minItems }),
       ...(opts.maxItems !== undefined && { maxItems: opts.maxItems }),
-    }
+    } as Built<ArrayFieldDef, R, D> & { itemType: I; items: It }
+  },
+
+  object<
+    R extends boolean = false,
+    F extends Record<string, FieldDef> = Record<string, FieldDef>,
+    D extends Record<string, unknown> | undefined = undefined,
+  >(opts: {
+    description: string
+    required?: R
+    default?: D
+    refine?: FieldRule<InferInput<F>>[]
+    fields: F
+  }): Built<ObjectFieldDef, R, D> & { fields: NoInfer<F> } {
+    return {
+      type: 'object',
+      description: opts.description,
+      required: (opts.required ?? false) as R,
+      ...(opts.default !== undefined && { default: opts.default }),
+      ...(opts.refine !== undefined && { refine: opts.refine as FieldRule[] }),
+      fields: opts.fields,
+    } as Built<ObjectFieldDef, R, D> & { fields: F }
+  },
+
+  enum<
+    R extends boolean = false,
+    const V extends readonly (string | number)[] = readonly (string | number)[],
+    D extends V[number] | undefined = undefined,
+  >(opts: {
+    description: string
+    required?: R
+    default?: D
+    refine?: FieldRule<V[number]>[]
+    values: V
+  }): Built<EnumFieldDef, R, D> & { values: NoInfer<V> } {
+    return {
+      type: 'enum',
+      description: opts.description,
+      required: (opts.required ?? false) as R,
+      ...(opts.default !== undefined && { default: opts.default }),
+      ...(opts.refine !== undefined && { refine: opts.refine as FieldRule[] }),
+      values: opts.values,
+    } as Built<EnumFieldDef, R, D> & { values: V }
+  },
+
+  literal<R extends boolean = false, const V extends LiteralValue = LiteralValue, D extends V | undefined = undefined>(opts: {
+    description: string
+    required?: R
+    default?: D
+    refine?: FieldRule<V>[]
+    value: V
+  }): Built<LiteralFieldDef, R, D> & { value: NoInfer<V> } {
+    return {
+      type: 'literal',
+      description: opts.description,
+      required: (opts.required ?? false) as R,
+      ...(opts.default !== undefined && { default: opts.default }),
+      ...(opts.refine !== undefined && { refine: opts.refine as FieldRule[] }),
+      value: opts.value,
+    } as Built<LiteralFieldDef, R, D> & { value: V }
+  },
+
+  union<
+    R extends boolean = false,
+    const V extends readonly FieldDef[] = readonly FieldDef[],
+    D extends {} | undefined = undefined,
+  >(opts: {
+    description: string
+    required?: R
+    default?: D
+    refine?: FieldRule<FieldValue<{ type: 'union'; variants: V }>>[]
+    discriminator?: string
+    variants: V
+  }): Built<UnionFieldDef, R, D> & { variants: NoInfer<V> } {
+    return {
+      type: 'union',
+      description: opts.description,
+      required: (opts.required ?? false) as R,
+      ...(opts.default !== undefined && { default: opts.default }),
+      ...(opts.refine !== undefined && { refine: opts.refine as FieldRule[] }),
+      ...(opts.discriminator !== undefined && { discriminator: opts.discriminator }),
+      variants: opts.variants,
+    } as Built<UnionFieldDef, R, D> & { variants: V }
   },
 }
@@ -0,0 +1,78 @@
+/**
+ * Reverse routing: builds a feature's URL from its name instead of a
+ * hard-coded path, so links, redirects and emails follow route changes.
+ *
+ *   ctx.urlFor('get-user', { id: user.id })               → '/api/users/42'
+ *   ctx.urlFor('list-posts', {}, { tag: ['a', 'b'] })     → '/api/posts?tag=a&tag=b'
+ *
+ * Path params are checked against the route: missing required params,
+ * params the route doesn't have and values that fail a constraint throw.
+ * Optional params and catch-alls may be left out. Values are encoded with
+ * encodeURIComponent(); a catch-all keeps its slashes. The URL is relative;
+ * prefix `appUrl` from config/manifest.ts for absolute links.
+ */
+
+import type { AnyFeatureDef } from './feature'
+import type { FeatureRegistry } from './scanner'
+import { parseRoute } from './router'
+
+export type UrlParams = Record<string, string | number | boolean>
+export type UrlQuery = Record<string, string | number | boolean | null | undefined | (string | number | boolean)[]>
+
+export type UrlForFn = (featureName: string, params?: UrlParams, query?: UrlQuery) => string
+
+function buildUrl(feature: AnyFeatureDef, params: UrlParams, query: UrlQuery): string {
+  const where = `for feature '${feature.name}'`
+  if (!feature.route) throw new Error(`urlFor(): feature '${feature.name}' has no route`)
+  const [method, pattern] = feature.route
+
+  const remaining = new Set(Object.keys(params))
+  const parts: string[] = []
+  for (const segment of parseRoute(pattern)) {
+    if (segment.kind === 'static') {
+      parts.push(segment.value)
+      continue
+    }
+    remaining.delete(segment.name)
+    const value = params[segment.name]
+    if (value === undefined || value === '') {
+      if (segment.kind === 'param' && !segment.optional) {
+        throw new Error(`urlFor(): missing param '${segment.name}' ${where} (${method} ${pattern})`)
+      }
+      continue
+    }
+    const text = String(value)
+    if (segment.kind === 'catchAll') {
+      parts.push(...text.split('/').filter(Boolean).map(encodeURIComponent))
+      continue
+    }
+    if (segment.constraint && !new RegExp(`^(?:${segment.constraint})$`).test(text)) {
+      throw new Error(`urlFor(): param '${segment.name}' ${where} does not match ${segment.constraint}: '${text}'`)
+    }
+    parts.push(encodeURIComponent(text))
+  }
+
+  if (remaining.size > 0) {
+    throw new Error(`urlFor(): unknown param '${[...remaining][0]}' ${where} (${method} ${pattern}). Pass query values as the third argument.`)
+  }
+
+  const search = new URLSearchParams()
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null) continue
+    for (const item of Array.isArray(value) ? value : [value]) search.append(key, String(item))
+  }
+  const queryString = search.toString()
+  return '/' + parts.join('/') + (queryString ? `?${queryString}` : '')
+}
+
+/** Builds the URL of a feature in `registry`. Throws for unknown or route-less features. */
+export function urlFor(registry: FeatureRegistry, featureName: string, params: UrlParams = {}, query: UrlQuery = {}): string {
+  const feature = registry[featureName]
+  if (!feature) throw new Error(`urlFor(): unknown feature '${featureName}'`)
+  return buildUrl(feature, params, query)
+}
+
+/** A urlFor() bound to a registry, as handed to features on ctx.urlFor. */
+export function createUrlFor(registry: FeatureRegistry): UrlForFn {
+  return (featureName, params, query) => urlFor(registry, featureName, params, query)
+}
@@ -1,4 +1,5 @@
-import type { FieldDef, InputSchemaDef, StringFieldDef, IntegerFieldDef, NumberFieldDef, ArrayFieldDef } from './types'
+import type { FieldDef, InputSchemaDef, OutputSchemaDef, StringFieldDef, IntegerFieldDef, NumberFieldDef, ArrayFieldDef, EnumFieldDef, LiteralFieldDef, UnionFieldDef, UnknownFieldsPolicy, FieldRule, InputRule } from './types'
+import { setOwn } from './normalize'
 
 export type ValidationErrors = Record<string, string>
 
@@ -17,6 +18,8 @@ function getPattern(field: StringFieldDef): RegExp {
 }
 
 function validateString(field: StringFieldDef, value: unknown): string | null {
+  // toDate fields arrive here as Date objects once normalizeInput() has parsed them
+  if (value instanceof Date && field.toDate) return isNaN(value.getTime()) ? 'invalid_format' : null
   if (typeof value !== 'string') return 'invalid_type'
   if (field.format) {
     switch (field.format) {
@@ -73,31 +76,168 @@ function validateArray(field: ArrayFieldDef, value: unknown): string | null {
   return null
 }
 
+function validateEnum(field: EnumFieldDef, value: unknown): string | null {
+  if (!field.values.includes(value as string | number)) return 'invalid_enum'
+  return null
+}
+
+function validateLiteral(field: LiteralFieldDef, value: unknown): string | null {
+  if (value !== field.value) return 'invalid_literal'
+  return null
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const SCALAR_ITEM_TYPES = new Set(['string', 'integer', 'number', 'boolean'])
+
 /**
- * Validates input data against a schema. Returns an object mapping field names
- * to error types. An empty object means the input is valid.
+ * The schema each array item is validated against: `items` when given,
+ * otherwise a bare field built from a scalar `itemType`. Unknown itemTypes
+ * are not checked.
  */
-export function validateInput(schema: InputSchemaDef, data: Record<string, unknown>): ValidationErrors {
-  const errors: ValidationErrors = {}
+function itemField(field: ArrayFieldDef): FieldDef | null {
+  if (field.items) return field.items
+  if (!SCALAR_ITEM_TYPES.has(field.itemType)) return null
+  return { type: field.itemType, description: '', required: true } as FieldDef
+}
+
+/** Whether a variant's discriminator field (a literal or enum) accepts `value`. */
+function matchesDiscriminator(field: FieldDef | undefined, value: unknown): boolean {
+  if (field?.type === 'literal') return field.value === value
+  if (field?.type === 'enum') return field.values.includes(value as string | number)
+  return false
+}
+
+/**
+ * Picks the variant a value belongs to and validates against it. Errors from
+ * the chosen variant are reported under `path`. Returns 'no_matching_variant'
+ * when no variant fits.
+ */
+function validateUnion(field: UnionFieldDef, value: unknown, path: string, errors: ValidationErrors, rejectUnknown: boolean): string | null {
+  if (field.discriminator) {
+    if (!isPlainObject(value)) return 'invalid_type'
+    const key = field.discriminator
+    const variant = field.variants.find((v) => v.type === 'object' && matchesDiscriminator(v.fields[key], value[key]))
+    if (!variant) return 'no_matching_variant'
+    validateValue(variant, value, path, errors, rejectUnknown)
+    return null
+  }
+
+  for (const variant of field.variants) {
+    const variantErrors: ValidationErrors = {}
+    validateValue(variant, value, path, variantErrors, rejectUnknown)
+    if (Object.keys(variantErrors).length === 0) return null
+  }
+  return 'no_matching_variant'
+}
 
+/** Runs refine rules in order and returns the first failure's code. */
+function checkRules(rules: FieldRule[], value: unknown): string | null {
+  for (const rule of rules) {
+    if (!rule.check(value)) return rule.code ?? 'invalid'
+  }
+  return null
+}
+
+/**
+ * Validates a single present value and writes errors into `errors`, keyed by
+ * path. Nested errors use dotted paths: `address.city`, `items.2.email`.
+ */
+function validateValue(field: FieldDef, value: unknown, path: string, errors: ValidationErrors, rejectUnknown: boolean) {
+  const errorCount = Object.keys(errors).length
+  let error: string | null = null
+  switch (field.type) {
+    case 'string': error = validateString(field, value); break
+    case 'integer': error = validateInteger(field, value); break
+    case 'number': error = validateNumber(field, value); break
+    case 'boolean': error = validateBoolean(field, value); break
+    case 'array': {
+      error = validateArray(field, value)
+      const items = itemField(field)
+      if (items && Array.isArray(value)) {
+        value.forEach((item, i) => {
+          if (item === undefined || item === null) errors[`${path}.${i}`] = 'required'
+          else validateValue(items, item, `${path}.${i}`, errors, rejectUnknown)
+        })
+      }
+      break
+    }
+    case 'object':
+      if (!isPlainObject(value)) error = 'invalid_type'
+      else validateFields(field.fields, value, `${path}.`, errors, rejectUnknown)
+      break
+    case 'enum': error = validateEnum(field, value); break
+    case 'literal': error = validateLiteral(field, value); break
+    case 'union': error = validateUnion(field, value, path, errors, rejectUnknown); break
+  }
+  // refine rules only see values that passed every built-in check, nested ones included
+  if (!error && field.refine && Object.keys(errors).length === errorCount) error = checkRules(field.refine, value)
+  if (error) errors[path] = error
+}
+
+/**
+ * Validates each declared field of an object, prefixing error paths with `prefix`.
+ * With `rejectUnknown`, every undeclared key not in `allowKeys` is reported as `unknown_field`.
+ */
+function validateFields(
+  schema: Record<string, FieldDef>,
+  data: Record<string, unknown>,
+  prefix: string,
+  errors: ValidationErrors,
+  rejectUnknown: boolean,
+  allowKeys: readonly string[] = [],
+) {
   for (const [name, field] of Object.entries(schema)) {
+    const path = prefix + name
     const value = data[name]
 
     if (value === undefined || value === null) {
-      if (field.required) errors[name] = 'required'
+      if (field.required) errors[path] = 'required'
       continue
     }
 
-    let error: string | null = null
-    switch (field.type) {
-      case 'string': error = validateString(field, value); break
-      case 'integer': error = validateInteger(field, value); break
-      case 'number': error = validateNumber(field, value); break
-      case 'boolean': error = validateBoolean(field, value); break
-      case 'array': error = validateArray(field, value); break
+    validateValue(field, value, path, errors, rejectUnknown)
+  }
+
+  if (rejectUnknown) {
+    for (const name of Object.keys(data)) {
+      if (Object.hasOwn(schema, name) || allowKeys.includes(name)) continue
+      setOwn(errors, prefix + name, 'unknown_field')
     }
-    if (error) errors[name] = error
   }
+}
 
+/**
+ * Validates input data against a schema. Returns an object mapping field names
+ * to error types. An empty object means the input is valid.
+ * Errors inside objects and arrays are keyed by path, e.g. `items.2.email`.
+ * With `unknownFields: 'reject'`, undeclared keys are reported as
+ * `unknown_field`, except top-level `allowKeys` (e.g. path params).
+ * Cross-field `rules` (a feature's `validate`) run only once every field is
+ * valid, and their errors are merged into the result.
+ */
+export function validateInput(
+  schema: InputSchemaDef,
+  data: Record<string, unknown>,
+  options: { unknownFields?: UnknownFieldsPolicy; allowKeys?: readonly string[]; rules?: readonly InputRule[] } = {},
+): ValidationErrors {
+  const errors: ValidationErrors = {}
+  validateFields(schema, data, '', errors, options.unknownFields === 'reject', options.allowKeys)
+  if (Object.keys(errors).length > 0) return errors
+  for (const rule of options.rules ?? []) {
+    Object.assign(errors, rule.check(data) ?? {})
+  }
   return errors
 }
+
+/**
+ * Validates the `data` a feature passed to ok() against its output schema.
+ * Same error types as validateInput(). Non-object data is reported as
+ * `{ data: 'invalid_type' }`.
+ */
+export function validateOutput(schema: OutputSchemaDef, data: unknown): ValidationErrors {
+  if (!isPlainObject(data)) return { data: 'invalid_type' }
+  return validateInput(schema, data)
+}
@@ -0,0 +1,9 @@
+import { serveMcpStdio } from './manifest'
+
+// MCP stdio transport: lets coding agents call features as tools.
+// Pass the same `authenticate` as index.ts to reach protected features;
+// MANIFEST_MCP_TOKEN is sent to it as a bearer token with every call.
+await serveMcpStdio({
+  projectDir: import.meta.dir,
+  headers: Bun.env.MANIFEST_MCP_TOKEN ? { Authorization: `Bearer ${Bun.env.MANIFEST_MCP_TOKEN}` } : {},
+})
@@ -9,7 +9,7 @@ import sparkConfig from '../config/spark'
 
 /** Event emitted by Spark when something notable happens in the application. */
 export type SparkEvent = {
-  type: 'server-error' | 'unhandled-error' | 'process-error' | 'rate-limit'
+  type: 'server-error' | 'unhandled-error' | 'process-error' | 'rate-limit' | 'event-error' | 'output-mismatch'
   traceId: string
   timestamp?: string
   environment?: string
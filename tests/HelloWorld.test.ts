@@ -1,6 +1,7 @@
 import { describe, test, expect } from 'bun:test'
 import { createTestClient } from '../manifest/testing'
 import path from 'path'
+import helloWorld from '../features/HelloWorld'
 
 describe('hello-world', () => {
   const client = createTestClient({
@@ -24,3 +25,14 @@ describe('hello-world', () => {
     await expect(client.call('nonexistent', {})).rejects.toThrow('Feature "nonexistent" not found')
   })
 })
+
+describe('hello-world (typed call)', () => {
+  const client = createTestClient({
+    featuresDir: path.resolve(__dirname, '../features'),
+  })
+
+  test('accepts the imported feature definition', async () => {
+    const result = await client.call(helloWorld, { name: 'Ada' })
+    expect(result.message).toBe('Hello, Ada!')
+  })
+})
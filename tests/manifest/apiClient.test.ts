@@ -0,0 +1,130 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
+import { generateApiClient, writeApiClient, functionName } from '../../manifest/apiClient'
+import { createManifestServer } from '../../manifest/server'
+import { defineFeature } from '../../manifest/feature'
+import { t } from '../../manifest/types'
+import fs from 'fs'
+import path from 'path'
+import { createTempProject, featureModule } from './tempProject'
+import type { StreamEvent } from '../../frontend/generated/api'
+
+describe('generateApiClient', () => {
+  const source = generateApiClient({
+    'get-user': defineFeature({
+      name: 'get-user',
+      description: 'Gets a user.',
+      route: ['GET', '/api/users/:id'],
+      input: {
+        fields: t.array({ description: 'Fields.', itemType: 'string' }),
+        role: t.enum({ description: 'Role.', values: ['admin', 'member'], required: true }),
+        page: t.integer({ description: 'Page.', required: true, default: 1 }),
+      },
+      output: { id: t.string({ description: 'ID.', required: true }), 'display-name': t.string({ description: 'Name.' }) },
+      async handle({ ok }) { return ok('Got user') },
+    }),
+    'user-created': defineFeature({
+      name: 'user-created',
+      description: 'Internal event.',
+      type: 'event',
+      trigger: 'user.created',
+      input: {},
+      async handle({ ok }) { return ok('Handled') },
+    }),
+  })
+
+  test('emits a typed function per routed feature', () => {
+    expect(source).toContain('export function getUser(input: getUser.Input): Promise<ApiResponse<getUser.Output, getUser.Input>>')
+    expect(source).toContain('export type Input = { fields?: string[]; role: "admin" | "member"; page?: number; id: string | number }')
+    expect(source).toContain('export type Output = { id: string; "display-name"?: string }')
+    expect(source).not.toContain('userCreated')
+  })
+
+  test('fills optional params and catch-alls, without route constraints', () => {
+    const files = generateApiClient({
+      'get-file': defineFeature({
+        name: 'get-file',
+        description: 'Gets a file.',
+        route: ['GET', '/api/files/:version(\\d+)?/*path'],
+        input: {},
+        async handle({ ok }) { return ok('Got file') },
+      }),
+    })
+    expect(files).toContain('export function getFile(input: getFile.Input = {})')
+    expect(files).toContain('export type Input = { version?: string | number; path?: string | number }')
+    expect(files).toContain('return request("GET", "/api/files/:version?/*path", input)')
+  })
+
+  test('camel-cases feature names', () => {
+    expect(functionName('hello-world')).toBe('helloWorld')
+    expect(functionName('v2.list_items')).toBe('v2ListItems')
+  })
+})
+
+describe('writeApiClient', () => {
+  function lookup(inputField: string): string {
+    return featureModule(`  name: 'lookup',
+  description: 'Looks something up.',
+  route: ['GET', '/api/lookup'],
+  authentication: 'none',
+  sideEffects: [],
+  errorCases: [],
+  input: { ${inputField}: t.string({ description: 'What to look up.' }) },
+  async handle({ ok }) {
+    return ok('Found')
+  },`)
+  }
+
+  test('picks up feature edits on the next write', async () => {
+    const project = createTempProject({ 'features/Lookup.ts': lookup('query') })
+    try {
+      expect(await writeApiClient(project.dir, 'api.ts')).toBe(true)
+      expect(await writeApiClient(project.dir, 'api.ts')).toBe(false)
+      expect(fs.readFileSync(path.join(project.dir, 'api.ts'), 'utf8')).toContain('{ query?: string }')
+
+      project.write('features/Lookup.ts', lookup('term'))
+      expect(await writeApiClient(project.dir, 'api.ts')).toBe(true)
+      const source = fs.readFileSync(path.join(project.dir, 'api.ts'), 'utf8')
+      expect(source).toContain('{ term?: string }')
+      expect(source).not.toContain('{ query?: string }')
+    } finally {
+      project.remove()
+    }
+  })
+})
+
+describe('generated client against the server', () => {
+  let server: Awaited<ReturnType<typeof createManifestServer>>
+  // Generated from the same features as the committed client, so it shares its types
+  let api: typeof import('../../frontend/generated/api')
+  const project = createTempProject()
+
+  beforeAll(async () => {
+    server = await createManifestServer({ projectDir: path.resolve(__dirname, '../..'), port: 0 })
+    const { scanAllFeatures } = await import('../../manifest/scanner')
+    const file = project.write('api.ts', generateApiClient(await scanAllFeatures(path.resolve(__dirname, '../..'))))
+    api = await import(file)
+    api.apiConfig.baseUrl = `http://localhost:${server.port}`
+  })
+
+  afterAll(() => {
+    server.stop()
+    project.remove()
+  })
+
+  test('calls request features and returns the envelope', async () => {
+    const result = await api.helloWorld({ name: 'Jane' })
+    expect(result).toMatchObject({ ok: true, data: { greeting: 'Hello, Jane!' } })
+  })
+
+  test('returns validation errors for 422', async () => {
+    const result = await api.helloWorld({ name: 'x'.repeat(101) })
+    expect(result).toMatchObject({ ok: false, status: 422, errors: { name: 'max_length' } })
+  })
+
+  test('iterates stream feature events', async () => {
+    const events: StreamEvent[] = []
+    for await (const event of api.tokenStream({ prompt: 'a b', delay: 0 })) events.push(event)
+    expect(events[0]?.event).toBe('meta')
+    expect(events.slice(1).map((e) => e.event)).toContain('token')
+  })
+})
@@ -0,0 +1,116 @@
+import { describe, test, expect } from 'bun:test'
+import {
+  resolveUser, bearerToken, apiKey, sessionCookie, chainAuthenticators, signSession, verifySession,
+} from '../../manifest/auth'
+import { createTestClient } from '../../manifest/testing'
+import path from 'path'
+
+const SECRET = 'test-secret'
+
+function request(headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/api/test', { headers })
+}
+
+describe('resolveUser', () => {
+  const authenticate = bearerToken({ verify: (token) => (token === 'good' ? { id: 'u1' } : null) })
+
+  test('never calls the authenticator for none features', async () => {
+    let called = false
+    const result = await resolveUser('none', request(), () => { called = true; return { id: 'u1' } })
+    expect(result).toEqual({ allowed: true, user: null })
+    expect(called).toBe(false)
+  })
+
+  test('rejects required features without a user', async () => {
+    const result = await resolveUser('required', request(), authenticate)
+    expect(result.allowed).toBe(false)
+  })
+
+  test('rejects required features when no authenticator is configured', async () => {
+    const result = await resolveUser('required', request({ authorization: 'Bearer good' }), undefined)
+    expect(result.allowed).toBe(false)
+  })
+
+  test('allows optional features without a user', async () => {
+    const result = await resolveUser('optional', request(), authenticate)
+    expect(result).toEqual({ allowed: true, user: null })
+  })
+
+  test('resolves the user for required features', async () => {
+    const result = await resolveUser('required', request({ authorization: 'Bearer good' }), authenticate)
+    expect(result).toEqual({ allowed: true, user: { id: 'u1' } })
+  })
+})
+
+describe('authenticators', () => {
+  test('bearerToken ignores other schemes', async () => {
+    const authenticate = bearerToken({ verify: () => ({ id: 'u1' }) })
+    expect(await authenticate(request({ authorization: 'Basic abc' }))).toBeNull()
+    expect(await authenticate(request({ authorization: 'Bearer abc' }))).toEqual({ id: 'u1' })
+  })
+
+  test('apiKey reads a configurable header', async () => {
+    const authenticate = apiKey({ header: 'x-service-key', verify: (key) => (key === 'k1' ? { id: 'svc' } : null) })
+    expect(await authenticate(request({ 'x-service-key': 'k1' }))).toEqual({ id: 'svc' })
+    expect(await authenticate(request({ 'x-api-key': 'k1' }))).toBeNull()
+  })
+
+  test('sessionCookie accepts a signed session', async () => {
+    const authenticate = sessionCookie({ secret: SECRET })
+    const cookie = `theme=dark; manifest_session=${signSession({ id: 'u2' }, SECRET)}`
+    expect(await authenticate(request({ cookie }))).toEqual({ id: 'u2' })
+  })
+
+  test('sessionCookie rejects a tampered session', async () => {
+    const authenticate = sessionCookie({ secret: SECRET })
+    const cookie = `manifest_session=${signSession({ id: 'u2' }, 'other-secret')}`
+    expect(await authenticate(request({ cookie }))).toBeNull()
+  })
+
+  test('sessionCookie treats a malformed cookie as absent', async () => {
+    const authenticate = sessionCookie({ secret: SECRET })
+    expect(await authenticate(request({ cookie: 'manifest_session=%E0%A4%A' }))).toBeNull()
+  })
+
+  test('verifySession rejects expired sessions', () => {
+    const expired = signSession({ id: 'u3', exp: Math.floor(Date.now() / 1000) - 60 }, SECRET)
+    expect(verifySession(expired, SECRET)).toBeNull()
+  })
+
+  test('chainAuthenticators returns the first user found', async () => {
+    const authenticate = chainAuthenticators(
+      bearerToken({ verify: () => null }),
+      apiKey({ verify: () => ({ id: 'from-key' }) }),
+    )
+    expect(await authenticate(request({ authorization: 'Bearer x', 'x-api-key': 'k' }))).toEqual({ id: 'from-key' })
+  })
+})
+
+describe('createTestClient authentication', () => {
+  const client = createTestClient({
+    featuresDir: path.resolve(__dirname, 'fixtures'),
+  })
+
+  test('returns 401 for required features without a user', async () => {
+    const result = await client.call('required-auth', {})
+    expect(result.status).toBe(401)
+    expect(result.message).toBe('Authentication required')
+  })
+
+  test('calls required features as a given user', async () => {
+    const result = await client.as({ id: 'u1' }).call('required-auth', {})
+    expect(result.status).toBe(200)
+    expect(result.data.userId).toBe('u1')
+  })
+
+  test('passes null user to optional features when anonymous', async () => {
+    const result = await client.call('optional-auth', {})
+    expect(result.message).toBe('Hello, guest')
+  })
+
+  test('accepts a user in the client options', async () => {
+    const member = createTestClient({ featuresDir: path.resolve(__dirname, 'fixtures'), user: { id: 'u9' } })
+    const result = await member.call('optional-auth', {})
+    expect(result.data.userId).toBe('u9')
+  })
+})
@@ -0,0 +1,128 @@
+import { describe, test, expect, beforeAll, afterAll, spyOn } from 'bun:test'
+import { isJsonContentType, readJsonBody } from '../../manifest/body'
+import { createManifestServer } from '../../manifest/server'
+import manifestConfig from '../../config/manifest'
+import { sparkDb, type AccessLog } from '../../services/sparkDb'
+import path from 'path'
+
+function chunked(text: string): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(text)
+  return new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += 4) controller.enqueue(bytes.slice(i, i + 4))
+      controller.close()
+    },
+  })
+}
+
+describe('isJsonContentType', () => {
+  test('accepts JSON types with parameters', () => {
+    expect(isJsonContentType('application/json')).toBe(true)
+    expect(isJsonContentType('Application/JSON; charset=utf-8')).toBe(true)
+    expect(isJsonContentType('application/merge-patch+json')).toBe(true)
+  })
+
+  test('refuses everything else', () => {
+    expect(isJsonContentType('text/plain')).toBe(false)
+    expect(isJsonContentType('application/x-www-form-urlencoded')).toBe(false)
+    expect(isJsonContentType('text/json+html')).toBe(false)
+    expect(isJsonContentType(null)).toBe(false)
+  })
+})
+
+describe('readJsonBody', () => {
+  test('parses a body within the limit', async () => {
+    const req = new Request('http://localhost/', { method: 'POST', body: '{"a":1}' })
+    expect(await readJsonBody(req, 7)).toEqual({ body: { a: 1 } })
+  })
+
+  test('refuses a Content-Length over the limit without reading', async () => {
+    const req = new Request('http://localhost/', { method: 'POST', headers: { 'Content-Length': '7' }, body: '{"a":1}' })
+    expect(await readJsonBody(req, 6)).toMatchObject({ status: 413 })
+    expect(req.bodyUsed).toBe(false)
+  })
+
+  test('stops reading a body without Content-Length past the limit', async () => {
+    const req = new Request('http://localhost/', { method: 'POST', body: chunked(JSON.stringify({ title: 'x'.repeat(100) })) })
+    expect(await readJsonBody(req, 20)).toMatchObject({ status: 413 })
+  })
+
+  test('answers 400 for invalid JSON', async () => {
+    const req = new Request('http://localhost/', { method: 'POST', body: '{nope' })
+    expect(await readJsonBody(req, 100)).toEqual({ status: 400, message: 'Invalid JSON body' })
+  })
+})
+
+describe('body limits on the server', () => {
+  const { maxBodySize } = manifestConfig
+  let server: Awaited<ReturnType<typeof createManifestServer>>
+  let baseUrl: string
+  const logged: AccessLog[] = []
+  const logAccess = spyOn(sparkDb, 'logAccess').mockImplementation((entry) => { logged.push(entry) })
+
+  beforeAll(async () => {
+    manifestConfig.maxBodySize = 64
+    const fixturesDir = path.resolve(__dirname, 'fixtures')
+    server = await createManifestServer({ projectDir: fixturesDir, featuresDir: fixturesDir, port: 0 })
+    baseUrl = `http://localhost:${server.port}`
+  })
+
+  afterAll(() => {
+    server.stop()
+    logAccess.mockRestore()
+    manifestConfig.maxBodySize = maxBodySize
+  })
+
+  function post(pathname: string, body: BodyInit, contentType = 'application/json') {
+    return fetch(`${baseUrl}${pathname}`, { method: 'POST', headers: { 'Content-Type': contentType }, body })
+  }
+
+  test('accepts bodies within the global limit', async () => {
+    const res = await post('/api/test/echo', JSON.stringify({ title: 'hi' }))
+    expect(res.status).toBe(200)
+    expect((await res.json()).data).toEqual({ title: 'hi' })
+  })
+
+  test('answers 413 over the global limit and logs it', async () => {
+    const res = await post('/api/test/echo', JSON.stringify({ title: 'x'.repeat(100) }))
+    expect(res.status).toBe(413)
+    const body = await res.json()
+    expect(body.message).toBe('Request body too large (limit 64 bytes)')
+    expect(body.meta.feature).toBe('echo-input')
+    expect(logged.at(-1)).toMatchObject({ status: 413, feature: 'echo-input', error: body.message })
+  })
+
+  test('answers 413 for chunked bodies over the limit', async () => {
+    const res = await post('/api/test/echo', chunked(JSON.stringify({ title: 'x'.repeat(100) })))
+    expect(res.status).toBe(413)
+  })
+
+  test("uses the feature's own limit", async () => {
+    const res = await post('/api/test/large-body', JSON.stringify({ title: 'x'.repeat(100) }))
+    expect(res.status).toBe(200)
+  })
+
+  test('answers 415 for other content types on body methods and logs it', async () => {
+    const res = await post('/api/test/echo', 'text=hi', 'application/x-www-form-urlencoded')
+    expect(res.status).toBe(415)
+    const body = await res.json()
+    expect(body.message).toBe("Unsupported content type 'application/x-www-form-urlencoded'. Send application/json.")
+    expect(logged.at(-1)).toMatchObject({ status: 415, feature: 'echo-input', error: body.message })
+  })
+
+  test('accepts body methods without a body', async () => {
+    const res = await fetch(`${baseUrl}/api/test/echo?title=hi`, { method: 'POST' })
+    expect(res.status).toBe(200)
+  })
+
+  test('ignores non-JSON bodies on GET', async () => {
+    const res = await fetch(`${baseUrl}/api/test/request?text=hi`, { headers: { 'Content-Type': 'text/plain' } })
+    expect(res.status).toBe(200)
+  })
+
+  test('limits /__rpc bodies', async () => {
+    const res = await post('/__rpc', JSON.stringify({ feature: 'echo-input', input: { title: 'x'.repeat(100) } }))
+    expect(res.status).toBe(413)
+    expect(logged.at(-1)).toMatchObject({ status: 413, path: '/__rpc' })
+  })
+})
@@ -0,0 +1,132 @@
+import { describe, test, expect, afterAll } from 'bun:test'
+import { checkRegistry, formatIssue } from '../../manifest/check'
+import { defineFeature } from '../../manifest/feature'
+import { createManifestServer } from '../../manifest/server'
+import { scanAllFeatures } from '../../manifest/scanner'
+import { t } from '../../manifest/types'
+import manifestConfig from '../../config/manifest'
+import path from 'path'
+import { createTempProject, featureModule } from './tempProject'
+
+function routed(name: string, route: [('GET' | 'POST' | 'DELETE'), string], input = {}) {
+  return defineFeature({
+    name,
+    description: 'Test feature.',
+    route,
+    input,
+    async handle({ ok }) { return ok('Done') },
+  })
+}
+
+describe('checkRegistry', () => {
+  test('passes the project and its extensions', async () => {
+    expect(checkRegistry(await scanAllFeatures(path.resolve(__dirname, '../..')))).toEqual([])
+  })
+
+  test('reports duplicate routes, whatever the param names', () => {
+    const issues = checkRegistry({
+      'get-user': routed('get-user', ['GET', '/api/users/:id'], { id: t.string({ description: 'User ID.' }) }),
+      'find-user': routed('find-user', ['GET', '/api/users/:userId'], { userId: t.string({ description: 'User ID.' }) }),
+      'update-user': routed('update-user', ['POST', '/api/users/:id'], { id: t.string({ description: 'User ID.' }) }),
+    })
+    expect(issues).toEqual([{
+      severity: 'error',
+      code: 'duplicate_route',
+      feature: 'find-user',
+      message: 'GET /api/users/:userId duplicates GET /api/users/:id (get-user)',
+    }])
+  })
+
+  test('reports routes only registration order tells apart', () => {
+    const issues = checkRegistry({
+      'get-user': routed('get-user', ['GET', '/api/users/:id'], { id: t.string({ description: 'User ID.' }) }),
+      'current-user': routed('current-user', ['GET', '/api/users/me']),
+      'by-number': routed('by-number', ['GET', '/api/items/:id(\\d+)'], { id: t.string({ description: 'Item ID.' }) }),
+      'by-int': routed('by-int', ['GET', '/api/items/:id<int>'], { id: t.string({ description: 'Item ID.' }) }),
+      'list-users': routed('list-users', ['GET', '/api/users/:page?'], { page: t.string({ description: 'Page.' }) }),
+    })
+    expect(issues.map((i) => [i.code, i.feature, i.severity])).toEqual([
+      ['ambiguous_route', 'by-int', 'warning'],
+      ['duplicate_route', 'list-users', 'error'],
+    ])
+  })
+
+  test('only warns about routes with disjoint param constraints', () => {
+    const issues = checkRegistry({
+      'post-by-id': routed('post-by-id', ['GET', '/api/posts/:id(\\d+)'], { id: t.string({ description: 'Post ID.' }) }),
+      'post-by-uuid': routed('post-by-uuid', ['GET', '/api/posts/:uuid<uuid>'], { uuid: t.string({ description: 'Post UUID.' }) }),
+    })
+    expect(issues.map((i) => [i.code, i.severity])).toEqual([['ambiguous_route', 'warning']])
+  })
+
+  test('reports routes the router cannot parse', () => {
+    const [issue] = checkRegistry({ files: routed('files', ['GET', '/files/*path/raw']) })
+    expect(issue).toMatchObject({ severity: 'error', code: 'invalid_route' })
+  })
+
+  test('reports undeclared route params as warnings', () => {
+    const [issue] = checkRegistry({ 'get-post': routed('get-post', ['GET', '/api/posts/:slug']) })
+    expect(issue).toMatchObject({ severity: 'warning', code: 'undeclared_param' })
+  })
+
+  test('reports required inputs a GET query string cannot carry', () => {
+    const issues = checkRegistry({
+      search: routed('search', ['GET', '/api/search'], {
+        filter: t.object({ description: 'Filter.', required: true, fields: {} }),
+        sort: t.object({ description: 'Sort.', fields: {} }),
+        tags: t.array({ description: 'Tags.', itemType: 'string', required: true }),
+      }),
+      'create-search': routed('create-search', ['POST', '/api/search'], {
+        filter: t.object({ description: 'Filter.', required: true, fields: {} }),
+      }),
+    })
+    expect(issues.map((i) => [i.code, i.feature, i.severity])).toEqual([['unreachable_field', 'search', 'error']])
+  })
+
+  test('reports invalid patterns and missing descriptions, nested fields included', () => {
+    const issues = checkRegistry({
+      signup: routed('signup', ['POST', '/api/signup'], {
+        code: t.string({ description: 'Invite code.', pattern: '[a-z' }),
+        address: t.object({ description: 'Address.', fields: { zip: t.string({ description: ' ' }) } }),
+      }),
+    })
+    expect(issues.map((i) => formatIssue(i))).toEqual([
+      expect.stringMatching(/^error {3}signup: Input field 'code' has an invalid pattern: .* \[invalid_pattern\]$/),
+      "warning signup: Input field 'address.zip' has no description [missing_description]",
+    ])
+  })
+})
+
+describe('startup check', () => {
+  const project = createTempProject()
+  const projectDir = project.dir
+  for (const [file, name] of [['A.ts', 'first'], ['B.ts', 'second']]) {
+    project.write(`features/${file}`, featureModule(`  name: '${name}',
+  description: 'Test feature.',
+  route: ['GET', '/api/same'],
+  authentication: 'none',
+  input: {},
+  async handle({ ok }) { return ok('Done') },`))
+  }
+  const { debug } = manifestConfig
+
+  afterAll(() => {
+    manifestConfig.debug = debug
+    project.remove()
+  })
+
+  test('refuses to start in production when a check fails', async () => {
+    const warn = console.warn
+    console.warn = () => {}
+    try {
+      manifestConfig.debug = false
+      await expect(createManifestServer({ projectDir, port: 0 })).rejects.toThrow('Feature check found 1 error(s)')
+
+      manifestConfig.debug = true
+      const server = await createManifestServer({ projectDir, port: 0 })
+      server.stop()
+    } finally {
+      console.warn = warn
+    }
+  })
+})
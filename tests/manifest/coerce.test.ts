@@ -0,0 +1,58 @@
+import { describe, test, expect } from 'bun:test'
+import { coerceInput, collectSearchParams } from '../../manifest/coerce'
+import { t } from '../../manifest/types'
+
+const schema = {
+  limit: t.integer({ description: 'Limit.' }),
+  ratio: t.number({ description: 'Ratio.' }),
+  active: t.boolean({ description: 'Active.' }),
+  tags: t.array({ description: 'Tags.', itemType: 'string' }),
+  ids: t.array({ description: 'Ids.', itemType: 'integer' }),
+  name: t.string({ description: 'Name.' }),
+  tier: t.enum({ description: 'Tier.', values: ['free', 'pro', 3] }),
+}
+
+function query(qs: string) {
+  return coerceInput(schema, collectSearchParams(new URLSearchParams(qs)))
+}
+
+describe('coerceInput', () => {
+  test('coerces integers and numbers', () => {
+    expect(query('limit=10&ratio=0.5')).toEqual({ limit: 10, ratio: 0.5 })
+  })
+
+  test('coerces booleans', () => {
+    expect(query('active=true').active).toBe(true)
+    expect(query('active=0').active).toBe(false)
+  })
+
+  test('leaves invalid values as strings for validation to reject', () => {
+    expect(query('limit=ten&ratio=1.2.3&active=yes')).toEqual({ limit: 'ten', ratio: '1.2.3', active: 'yes' })
+    expect(query('limit=1.5').limit).toBe('1.5')
+  })
+
+  test('collects repeated keys into arrays', () => {
+    expect(query('tags=a&tags=b').tags).toEqual(['a', 'b'])
+  })
+
+  test('splits comma-separated arrays and coerces items', () => {
+    expect(query('tags=a,b&ids=1,2,3')).toEqual({ tags: ['a', 'b'], ids: [1, 2, 3] })
+  })
+
+  test('keeps strings and undeclared keys as given', () => {
+    expect(query('name=42&extra=x&extra=y')).toEqual({ name: '42', extra: 'y' })
+  })
+
+  test('coerces enum members by their string form', () => {
+    expect(query('tier=pro').tier).toBe('pro')
+    expect(query('tier=3').tier).toBe(3)
+  })
+
+  test('handles keys named like prototype members', () => {
+    expect(query('constructor=x&toString=y&__proto__=z&limit=1')).toEqual({ constructor: 'x', toString: 'y', ['__proto__']: 'z', limit: 1 })
+  })
+
+  test('coerces path params', () => {
+    expect(coerceInput(schema, { limit: '7' })).toEqual({ limit: 7 })
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
+import { createManifestServer } from '../../manifest/server'
+import manifestConfig from '../../config/manifest'
+import path from 'path'
+
+describe('CORS', () => {
+  const { corsOrigins, corsCredentials } = manifestConfig
+  let server: Awaited<ReturnType<typeof createManifestServer>>
+  let baseUrl: string
+
+  function preflight(pathname: string, origin: string, method: string) {
+    return fetch(`${baseUrl}${pathname}`, {
+      method: 'OPTIONS',
+      headers: { Origin: origin, 'Access-Control-Request-Method': method, 'Access-Control-Request-Headers': 'content-type' },
+    })
+  }
+
+  beforeAll(async () => {
+    manifestConfig.corsOrigins = ['https://app.example.com']
+    manifestConfig.corsCredentials = false
+    const fixturesDir = path.resolve(__dirname, 'fixtures')
+    server = await createManifestServer({ projectDir: fixturesDir, featuresDir: fixturesDir, port: 0 })
+    baseUrl = `http://localhost:${server.port}`
+  })
+
+  afterAll(() => {
+    server.stop()
+    manifestConfig.corsOrigins = corsOrigins
+    manifestConfig.corsCredentials = corsCredentials
+  })
+
+  test('answers preflight with the global settings', async () => {
+    const res = await preflight('/api/test/items', 'https://app.example.com', 'GET')
+    expect(res.status).toBe(204)
+    expect(res.headers.get('access-control-allow-origin')).toBe('https://app.example.com')
+    expect(res.headers.get('access-control-allow-methods')).toBe('GET, POST, HEAD, OPTIONS')
+    expect(res.headers.get('access-control-allow-headers')).toBe('Content-Type, Authorization')
+    expect(res.headers.get('access-control-max-age')).toBe('600')
+    expect(res.headers.get('vary')).toBe('Origin')
+  })
+
+  test('uses the settings of the feature the requested method reaches', async () => {
+    const admin = await preflight('/api/test/items', 'https://admin.example.com', 'POST')
+    expect(admin.headers.get('access-control-allow-origin')).toBe('https://admin.example.com')
+    expect(admin.headers.get('access-control-allow-credentials')).toBe('true')
+
+    const app = await preflight('/api/test/items', 'https://app.example.com', 'POST')
+    expect(app.status).toBe(204)
+    expect(app.headers.get('access-control-allow-origin')).toBeNull()
+  })
+
+  test('refuses other origins and features with cors: false', async () => {
+    expect((await preflight('/api/test/items', 'https://evil.example.com', 'GET')).headers.get('access-control-allow-origin')).toBeNull()
+    expect((await preflight('/api/test/cors-disabled', 'https://app.example.com', 'GET')).headers.get('access-control-allow-origin')).toBeNull()
+  })
+
+  test('adds CORS headers to responses for allowed origins', async () => {
+    const res = await fetch(`${baseUrl}/api/test/items`, { headers: { Origin: 'https://app.example.com' } })
+    expect(res.headers.get('access-control-allow-origin')).toBe('https://app.example.com')
+    expect(res.headers.get('access-control-expose-headers')).toContain('Retry-After')
+
+    const other = await fetch(`${baseUrl}/api/test/items`, { headers: { Origin: 'https://evil.example.com' } })
+    expect(other.status).toBe(200)
+    expect(other.headers.get('access-control-allow-origin')).toBeNull()
+  })
+
+  test('covers stream features', async () => {
+    const pre = await preflight('/api/test/ticks', 'https://app.example.com', 'GET')
+    expect(pre.headers.get('access-control-allow-origin')).toBe('https://app.example.com')
+
+    const res = await fetch(`${baseUrl}/api/test/ticks`, { headers: { Origin: 'https://app.example.com' } })
+    expect(res.headers.get('content-type')).toBe('text/event-stream')
+    expect(res.headers.get('access-control-allow-origin')).toBe('https://app.example.com')
+    await res.text()
+  })
+
+  test('sends no CORS headers when no origins are configured', async () => {
+    manifestConfig.corsOrigins = []
+    try {
+      const res = await fetch(`${baseUrl}/api/test/items`, { headers: { Origin: 'https://app.example.com' } })
+      expect(res.headers.get('access-control-allow-origin')).toBeNull()
+    } finally {
+      manifestConfig.corsOrigins = ['https://app.example.com']
+    }
+  })
+
+  test('never grants credentials to a wildcard origin', async () => {
+    manifestConfig.corsOrigins = ['*']
+    manifestConfig.corsCredentials = true
+    try {
+      const res = await fetch(`${baseUrl}/api/test/items`, { headers: { Origin: 'https://evil.example.com' } })
+      expect(res.headers.get('access-control-allow-origin')).toBe('*')
+      expect(res.headers.get('access-control-allow-credentials')).toBeNull()
+
+      const pre = await preflight('/api/test/items', 'https://evil.example.com', 'GET')
+      expect(pre.headers.get('access-control-allow-origin')).toBe('*')
+      expect(pre.headers.get('access-control-allow-credentials')).toBeNull()
+    } finally {
+      manifestConfig.corsOrigins = ['https://app.example.com']
+      manifestConfig.corsCredentials = false
+    }
+  })
+})
@@ -0,0 +1,133 @@
+import { describe, test, expect } from 'bun:test'
+import { createEventBus } from '../../manifest/events'
+import { defineFeature } from '../../manifest/feature'
+import { createTestClient } from '../../manifest/testing'
+import { t } from '../../manifest/types'
+import { notified } from './fixtures/NotifyShipped'
+import type { SparkEvent } from '../../services/sparkDb'
+import path from 'path'
+
+function eventFeature(name: string, trigger: string, handle: (input: Record<string, unknown>) => void | Promise<void>) {
+  return defineFeature({
+    name,
+    description: `Test event feature ${name}.`,
+    type: 'event',
+    trigger,
+    input: { id: t.integer({ description: 'Entity id.', required: true }) },
+    async handle({ input, ok }) {
+      await handle(input)
+      return ok('Handled')
+    },
+  })
+}
+
+describe('createEventBus', () => {
+  test('runs every event feature whose trigger matches', async () => {
+    const seen: string[] = []
+    const bus = createEventBus({
+      a: eventFeature('a', 'user.created', () => { seen.push('a') }),
+      b: eventFeature('b', 'user.created', () => { seen.push('b') }),
+      c: eventFeature('c', 'user.deleted', () => { seen.push('c') }),
+    })
+    bus.publish('user.created', { id: 1 }, 'req-1')
+    await bus.idle()
+    expect(seen.sort()).toEqual(['a', 'b'])
+  })
+
+  test('runs asynchronously after publish returns', async () => {
+    const seen: string[] = []
+    const bus = createEventBus({ a: eventFeature('a', 'user.created', () => { seen.push('a') }) })
+    bus.publish('user.created', { id: 1 }, 'req-1')
+    expect(seen).toEqual([])
+    await bus.idle()
+    expect(seen).toEqual(['a'])
+  })
+
+  test('reports invalid payloads without running the handler', async () => {
+    const errors: SparkEvent[] = []
+    let ran = false
+    const bus = createEventBus(
+      { a: eventFeature('a', 'user.created', () => { ran = true }) },
+      { onError: (e) => errors.push(e) },
+    )
+    bus.publish('user.created', { id: 'nope' }, 'req-2')
+    await bus.idle()
+    expect(ran).toBe(false)
+    expect(errors).toHaveLength(1)
+    expect(errors[0]!.type).toBe('event-error')
+    expect(errors[0]!.traceId).toBe('req-2')
+    expect(errors[0]!.status).toBe(422)
+  })
+
+  test('reports thrown errors with the originating request id', async () => {
+    const errors: SparkEvent[] = []
+    const bus = createEventBus(
+      { a: eventFeature('a', 'user.created', () => { throw new Error('boom') }) },
+      { onError: (e) => errors.push(e) },
+    )
+    bus.publish('user.created', { id: 1 }, 'req-3')
+    await bus.idle()
+    expect(errors[0]!.traceId).toBe('req-3')
+    expect(errors[0]!.feature).toBe('a')
+    expect(errors[0]!.error!.message).toBe('boom')
+  })
+
+  test('reports errors thrown while preparing the payload', async () => {
+    const errors: SparkEvent[] = []
+    const bus = createEventBus(
+      {
+        a: defineFeature({
+          name: 'a',
+          description: 'Test event feature with a throwing rule.',
+          type: 'event',
+          trigger: 'user.created',
+          input: {
+            id: t.integer({
+              description: 'Entity id.',
+              refine: [{ description: 'Throws.', check: () => { throw new Error('rule broke') } }],
+            }),
+          },
+          async handle({ ok }) {
+            return ok('Handled')
+          },
+        }),
+      },
+      { onError: (e) => errors.push(e) },
+    )
+    bus.publish('user.created', { id: 1 }, 'req-5')
+    await bus.idle()
+    expect(errors).toHaveLength(1)
+    expect(errors[0]!.type).toBe('event-error')
+    expect(errors[0]!.traceId).toBe('req-5')
+    expect(errors[0]!.status).toBe(500)
+    expect(errors[0]!.error!.message).toBe('rule broke')
+  })
+
+  test('ignores events nobody subscribes to', async () => {
+    const bus = createEventBus({})
+    bus.publish('nothing.happened', {}, 'req-4')
+    await bus.idle()
+    expect(bus.subscribers('nothing.happened')).toEqual([])
+  })
+})
+
+describe('createTestClient events', () => {
+  const client = createTestClient({
+    featuresDir: path.resolve(__dirname, 'fixtures'),
+  })
+
+  test('ctx.publish dispatches to event features', async () => {
+    await client.call('ship-order', { orderId: 'o-1' })
+    const failures = await client.publish('order.shipped', { orderId: 'o-2' })
+    expect(failures).toEqual([])
+    expect(notified).toContain('o-1')
+    expect(notified).toContain('o-2')
+  })
+
+  test('publish returns event feature failures', async () => {
+    const failures = await client.publish('order.shipped', { orderId: 'explode' })
+    expect(failures).toHaveLength(1)
+    expect(failures[0]!.feature).toBe('notify-shipped')
+    expect(failures[0]!.error!.message).toBe('Notification failed')
+  })
+})
@@ -62,6 +62,9 @@ describe('defineFeature', () => {
     })
     const result = await feature.handle({
       input: {},
+      user: null,
+      publish: () => {},
+      urlFor: () => '/',
       ok: (message, opts) => ({
         success: true,
         status: opts?.status ?? 200,
@@ -95,6 +98,9 @@ describe('defineFeature', () => {
     })
     const result = await feature.handle({
       input: {},
+      user: null,
+      publish: () => {},
+      urlFor: () => '/',
       ok: (message, opts) => ({
         success: true,
         status: opts?.status ?? 200,
@@ -114,3 +120,56 @@ describe('defineFeature', () => {
     expect(result.status).toBe(409)
   })
 })
+
+describe('defineFeature input inference', () => {
+  const feature = defineFeature({
+    name: 'typed',
+    description: 'Typed input.',
+    route: ['POST', '/typed'],
+    input: {
+      email: t.string({ description: 'Email.', required: true, format: 'email' }),
+      limit: t.integer({ description: 'Limit.' }),
+      tags: t.array({ description: 'Tags.', itemType: 'string', required: true }),
+    },
+    async handle({ input, ok }) {
+      const email: string = input.email
+      const limit: number | undefined = input.limit
+      const tags: string[] = input.tags
+      // @ts-expect-error optional fields may be undefined
+      const strictLimit: number = input.limit
+      return ok('Typed', { data: { email, limit, tags, strictLimit } })
+    },
+  })
+
+  test('handle receives the derived input type', async () => {
+    const result = await feature.handle({
+      input: { email: 'a@b.co', tags: ['x'] },
+      user: null,
+      publish: () => {},
+      urlFor: () => '/',
+      ok: (message, opts) => ({ success: true, status: 200, message, data: opts?.data ?? null, errors: {} }),
+      fail: (message, status) => ({ success: false, status: status ?? 400, message, data: null, errors: {} }),
+    })
+    expect(result.data).toEqual({ email: 'a@b.co', limit: undefined, tags: ['x'], strictLimit: undefined })
+  })
+
+  test('toDate infers Date only for date and datetime formats', () => {
+    const dated = defineFeature({
+      name: 'dated',
+      description: 'Dated input.',
+      route: ['POST', '/dated'],
+      input: {
+        since: t.string({ description: 'Start.', required: true, format: 'datetime', toDate: true }),
+        label: t.string({ description: 'Label.', required: true, toDate: true }),
+      },
+      async handle({ input, ok }) {
+        const since: Date = input.since
+        const label: string = input.label
+        // @ts-expect-error without a date format the value stays a string
+        const labelDate: Date = input.label
+        return ok('Dated', { data: { since, label, labelDate } })
+      },
+    })
+    expect(dated.input).toHaveProperty('since.format', 'datetime')
+  })
+})
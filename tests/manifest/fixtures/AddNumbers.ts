@@ -0,0 +1,17 @@
+import { defineFeature, t } from '../../../manifest'
+
+export default defineFeature({
+  name: 'add-numbers',
+  description: 'Test fixture: adds two numbers. Has no route, so only /__rpc reaches it.',
+  authentication: 'none',
+  sideEffects: [],
+  errorCases: [],
+  rateLimit: { max: 3, windowSeconds: 60 },
+  input: {
+    a: t.integer({ description: 'First number.', required: true }),
+    b: t.integer({ description: 'Second number.', required: true }),
+  },
+  async handle({ input, ok }) {
+    return ok('Added', { data: { sum: input.a + input.b } })
+  },
+})
@@ -10,7 +10,7 @@ export default defineFeature({
   errorCases: [],
   input: { message: t.string({ description: 'Test message.', required: true }) },
   async stream({ input, emit }) {
-    emit(String(input.message))
+    emit(input.message)
     emit({ key: 'value' })
     emit('named', 'hello')
     emit('named-json', { text: 'world' })
@@ -0,0 +1,28 @@
+import { defineFeature, t } from '../../../manifest'
+
+export default defineFeature({
+  name: 'book-stay',
+  description: 'Test fixture: checks that a stay ends after it starts.',
+  route: ['POST', '/api/test/stays'],
+  authentication: 'none',
+  sideEffects: [],
+  errorCases: ['422 - Check-out before check-in'],
+  input: {
+    checkIn: t.string({ description: 'Check-in date.', required: true, format: 'date', toDate: true }),
+    checkOut: t.string({ description: 'Check-out date.', required: true, format: 'date', toDate: true }),
+    guests: t.integer({
+      description: 'Number of guests.',
+      required: true,
+      refine: [{ description: 'Must be an even number.', code: 'not_even', check: (n) => n % 2 === 0 }],
+    }),
+  },
+  validate: [
+    {
+      description: 'checkOut must be after checkIn.',
+      check: (input) => (input.checkOut > input.checkIn ? null : { checkOut: 'before_check_in' }),
+    },
+  ],
+  async handle({ input, ok }) {
+    return ok('Booked', { data: { nights: (input.checkOut.getTime() - input.checkIn.getTime()) / 86_400_000 } })
+  },
+})
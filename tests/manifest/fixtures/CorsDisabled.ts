@@ -0,0 +1,15 @@
+import { defineFeature } from '../../../manifest'
+
+export default defineFeature({
+  name: 'cors-disabled',
+  description: 'Test fixture: a feature with CORS turned off.',
+  route: ['GET', '/api/test/cors-disabled'],
+  authentication: 'none',
+  sideEffects: [],
+  errorCases: [],
+  cors: false,
+  input: {},
+  async handle({ ok }) {
+    return ok('Done')
+  },
+})
@@ -0,0 +1,17 @@
+import { defineFeature } from '../../../manifest'
+
+export const counted = { calls: 0 }
+
+export default defineFeature({
+  name: 'count-calls',
+  description: 'Test fixture: a GET feature that counts how often it runs.',
+  route: ['GET', '/api/test/count'],
+  authentication: 'none',
+  sideEffects: [],
+  errorCases: [],
+  input: {},
+  async handle({ ok }) {
+    counted.calls++
+    return ok('Counted', { data: { calls: counted.calls } })
+  },
+})
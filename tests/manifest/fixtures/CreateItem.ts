@@ -0,0 +1,15 @@
+import { defineFeature } from '../../../manifest'
+
+export default defineFeature({
+  name: 'create-item',
+  description: 'Test fixture: a POST feature on the same path with its own CORS settings.',
+  route: ['POST', '/api/test/items'],
+  authentication: 'none',
+  sideEffects: [],
+  errorCases: [],
+  cors: { origins: ['https://admin.example.com'], credentials: true },
+  input: {},
+  async handle({ ok }) {
+    return ok('Done')
+  },
+})
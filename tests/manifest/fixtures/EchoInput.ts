@@ -0,0 +1,16 @@
+import { defineFeature, t } from '../../../manifest'
+
+export default defineFeature({
+  name: 'echo-input',
+  description: 'Test fixture: returns the input the handler received.',
+  route: ['POST', '/api/test/echo'],
+  authentication: 'none',
+  sideEffects: [],
+  errorCases: [],
+  input: {
+    title: t.string({ description: 'Title.', required: true }),
+  },
+  async handle({ input, ok }) {
+    return ok('Echo', { data: input })
+  },
+})
@@ -0,0 +1,17 @@
+import { defineFeature, t } from '../../../manifest'
+
+export default defineFeature({
+  name: 'large-body',
+  description: 'Test fixture: accepts larger bodies than the global maxBodySize.',
+  route: ['POST', '/api/test/large-body'],
+  authentication: 'none',
+  sideEffects: [],
+  errorCases: [],
+  maxBodySize: 1024,
+  input: {
+    title: t.string({ description: 'Title.', required: true }),
+  },
+  async handle({ input, ok }) {
+    return ok('Received', { data: { length: input.title.length } })
+  },
+})
@@ -0,0 +1,16 @@
+import { defineFeature, t } from '../../../manifest'
+
+export default defineFeature({
+  name: 'link-to-echo',
+  description: 'Test fixture: returns the URL of another feature via urlFor().',
+  route: ['GET', '/api/test/link'],
+  authentication: 'none',
+  sideEffects: [],
+  errorCases: [],
+  input: {
+    from: t.string({ description: 'Query value to pass along.' }),
+  },
+  async handle({ input, ok, urlFor }) {
+    return ok('Linked', { data: { url: urlFor('echo-input', {}, { from: input.from }) } })
+  },
+})
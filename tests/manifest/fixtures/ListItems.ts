@@ -0,0 +1,14 @@
+import { defineFeature } from '../../../manifest'
+
+export default defineFeature({
+  name: 'list-items',
+  description: 'Test fixture: a GET feature under the global CORS settings.',
+  route: ['GET', '/api/test/items'],
+  authentication: 'none',
+  sideEffects: [],
+  errorCases: [],
+  input: {},
+  async handle({ ok }) {
+    return ok('Done')
+  },
+})
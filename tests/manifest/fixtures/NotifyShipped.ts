@@ -0,0 +1,19 @@
+import { defineFeature, t } from '../../../manifest'
+
+export const notified: string[] = []
+
+export default defineFeature({
+  name: 'notify-shipped',
+  description: 'Test fixture: an event feature triggered by order.shipped.',
+  type: 'event',
+  trigger: 'order.shipped',
+  authentication: 'none',
+  sideEffects: [],
+  errorCases: ['500 - Order "explode" always fails'],
+  input: { orderId: t.string({ description: 'Shipped order.', required: true }) },
+  async handle({ input, ok }) {
+    if (input.orderId === 'explode') throw new Error('Notification failed')
+    notified.push(input.orderId)
+    return ok('Notified')
+  },
+})
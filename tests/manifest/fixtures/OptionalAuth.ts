@@ -0,0 +1,14 @@
+import { defineFeature } from '../../../manifest'
+
+export default defineFeature({
+  name: 'optional-auth',
+  description: 'Test fixture: a feature that works with or without a user.',
+  route: ['GET', '/api/test/optional-auth'],
+  authentication: 'optional',
+  sideEffects: [],
+  errorCases: [],
+  input: {},
+  async handle({ user, ok }) {
+    return ok(user ? 'Hello, member' : 'Hello, guest', { data: { userId: user?.id ?? null } })
+  },
+})
@@ -0,0 +1,15 @@
+import { defineFeature, t } from '../../../manifest'
+
+export default defineFeature({
+  name: 'order-placed',
+  description: 'Test fixture: an event feature called directly through /__rpc.',
+  type: 'event',
+  trigger: 'order.placed',
+  authentication: 'none',
+  sideEffects: [],
+  errorCases: [],
+  input: { orderId: t.string({ description: 'Placed order.', required: true }) },
+  async handle({ input, ok }) {
+    return ok('Handled ' + input.orderId)
+  },
+})
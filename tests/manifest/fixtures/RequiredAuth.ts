@@ -0,0 +1,14 @@
+import { defineFeature } from '../../../manifest'
+
+export default defineFeature({
+  name: 'required-auth',
+  description: 'Test fixture: a feature that requires an authenticated user.',
+  route: ['GET', '/api/test/required-auth'],
+  authentication: 'required',
+  sideEffects: [],
+  errorCases: ['401 - Authentication required'],
+  input: {},
+  async handle({ user, ok }) {
+    return ok('Authenticated', { data: { userId: user!.id } })
+  },
+})
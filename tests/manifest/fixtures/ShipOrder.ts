@@ -0,0 +1,15 @@
+import { defineFeature, t } from '../../../manifest'
+
+export default defineFeature({
+  name: 'ship-order',
+  description: 'Test fixture: a request feature that publishes an order.shipped event.',
+  route: ['POST', '/api/test/orders/ship'],
+  authentication: 'none',
+  sideEffects: ['Publishes order.shipped'],
+  errorCases: [],
+  input: { orderId: t.string({ description: 'Order to ship.', required: true }) },
+  async handle({ input, ok, publish }) {
+    publish('order.shipped', { orderId: input.orderId })
+    return ok('Shipped')
+  },
+})
@@ -0,0 +1,17 @@
+import { defineFeature, t } from '../../../manifest'
+
+export default defineFeature({
+  name: 'strict-input',
+  description: 'Test fixture: rejects input keys it does not declare.',
+  route: ['POST', '/api/test/strict'],
+  authentication: 'none',
+  unknownFields: 'reject',
+  sideEffects: [],
+  errorCases: ['422 - Unknown field'],
+  input: {
+    title: t.string({ description: 'Title.', required: true }),
+  },
+  async handle({ input, ok }) {
+    return ok('Accepted', { data: input })
+  },
+})
@@ -0,0 +1,18 @@
+import { defineFeature } from '../../../manifest'
+
+export const ticked = { starts: 0 }
+
+export default defineFeature({
+  name: 'tick-stream',
+  description: 'Test fixture: a GET stream feature that counts how often it starts.',
+  type: 'stream',
+  route: ['GET', '/api/test/ticks'],
+  authentication: 'none',
+  sideEffects: [],
+  errorCases: [],
+  input: {},
+  async stream({ emit }) {
+    ticked.starts++
+    emit('tick')
+  },
+})
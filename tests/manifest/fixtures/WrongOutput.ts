@@ -0,0 +1,22 @@
+import { defineFeature, t } from '../../../manifest'
+
+export default defineFeature({
+  name: 'wrong-output',
+  description: 'Test fixture: returns data that does not match its output schema.',
+  route: ['GET', '/api/test/wrong-output'],
+  authentication: 'none',
+  sideEffects: [],
+  errorCases: [],
+  input: {},
+  output: {
+    id: t.integer({ description: 'Record id.', required: true }),
+    owner: t.object({
+      description: 'Record owner.',
+      required: true,
+      fields: { email: t.string({ description: 'Owner email.', required: true, format: 'email' }) },
+    }),
+  },
+  async handle({ ok }) {
+    return ok('Done', { data: { id: 'not-a-number', owner: { email: 'nope' } } })
+  },
+})
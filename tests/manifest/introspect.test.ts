@@ -0,0 +1,114 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
+import { describeRegistry } from '../../manifest/introspect'
+import { scanAllFeatures } from '../../manifest/scanner'
+import { createManifestServer } from '../../manifest/server'
+import manifestConfig from '../../config/manifest'
+import path from 'path'
+import { createTempProject, featureModule } from './tempProject'
+
+function postFeature(name: string, description: string) {
+  return featureModule(`  name: '${name}',
+  description: '${description}',
+  route: ['POST', '/api/${name}'],
+  authentication: 'none',
+  sideEffects: ['Writes a row'],
+  errorCases: ['409 - Already exists'],
+  input: {
+    slug: t.string({ description: 'Slug.', required: true, refine: [{ description: 'Lowercase.', code: 'not_lowercase', check: (v) => v === v.toLowerCase() }] }),
+  },
+  validate: [{ description: 'Slug is not reserved.', check: (input) => (input.slug === 'admin' ? { slug: 'reserved' } : null) }],
+  async handle({ ok }) { return ok('Done') },`)
+}
+
+// A project with one extension feature the project overrides and one it doesn't
+const project = createTempProject({
+  'extensions/blog/features/CreatePost.ts': postFeature('create-post', 'Extension version.'),
+  'extensions/blog/features/ListPosts.ts': postFeature('list-posts', 'Lists posts.'),
+  'features/CreatePost.ts': postFeature('create-post', 'Project version.'),
+})
+const projectDir = project.dir
+
+afterAll(() => {
+  project.remove()
+})
+
+describe('describeRegistry', () => {
+  test('describes features with their origin and overrides', async () => {
+    const description = describeRegistry(await scanAllFeatures(projectDir), { name: 'test', version: '1.0.0' })
+    expect(description.features.map((f) => f.name)).toEqual(['create-post', 'list-posts'])
+
+    const [createPost, listPosts] = description.features
+    expect(createPost!.description).toBe('Project version.')
+    expect(createPost!.origin).toEqual({ kind: 'project' })
+    expect(createPost!.sourcePath).toEndWith(path.join('features', 'CreatePost.ts'))
+    expect(listPosts!.origin).toEqual({ kind: 'extension', extension: 'blog' })
+
+    expect(description.overrides).toHaveLength(1)
+    expect(description.overrides[0]!.feature).toBe('create-post')
+    expect(description.overrides[0]!.extension).toEndWith(path.join('extensions', 'blog', 'features', 'CreatePost.ts'))
+  })
+
+  test('serializes metadata, schemas and rule descriptions as plain JSON', async () => {
+    const { features } = describeRegistry(await scanAllFeatures(projectDir), { name: 'test', version: '1.0.0' })
+    const feature = features[0]!
+    expect(feature).toMatchObject({
+      type: 'request',
+      route: ['POST', '/api/create-post'],
+      authentication: 'none',
+      rateLimit: null,
+      sideEffects: ['Writes a row'],
+      errorCases: ['409 - Already exists'],
+      rules: ['Slug is not reserved.'],
+    })
+    expect(feature.input.slug!.refine as unknown).toEqual([{ description: 'Lowercase.', code: 'not_lowercase' }])
+  })
+})
+
+describe('/__manifest', () => {
+  let server: Awaited<ReturnType<typeof createManifestServer>>
+  let url: string
+  const { debug, introspectionToken } = manifestConfig
+
+  beforeAll(async () => {
+    server = await createManifestServer({ projectDir, port: 0 })
+    url = `http://localhost:${server.port}/__manifest`
+  })
+
+  afterAll(() => {
+    server.stop()
+    manifestConfig.debug = debug
+    manifestConfig.introspectionToken = introspectionToken
+  })
+
+  test('is open in debug mode', async () => {
+    manifestConfig.debug = true
+    const res = await fetch(url)
+    const body = await res.json()
+    expect(res.status).toBe(200)
+    expect(body.overrides[0].feature).toBe('create-post')
+  })
+
+  test('needs the introspection token in production', async () => {
+    manifestConfig.debug = false
+    manifestConfig.introspectionToken = ''
+    expect((await fetch(url)).status).toBe(404)
+
+    manifestConfig.introspectionToken = 'letmein'
+    expect((await fetch(url)).status).toBe(401)
+    expect((await fetch(url, { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401)
+    expect((await fetch(url, { headers: { Authorization: 'Bearer letmein' } })).status).toBe(200)
+  })
+
+  test('gates /__openapi.json the same way', async () => {
+    const openApiUrl = `http://localhost:${server.port}/__openapi.json`
+    manifestConfig.debug = false
+    manifestConfig.introspectionToken = ''
+    expect((await fetch(openApiUrl)).status).toBe(404)
+
+    manifestConfig.introspectionToken = 'letmein'
+    expect((await fetch(openApiUrl)).status).toBe(401)
+    const res = await fetch(openApiUrl, { headers: { Authorization: 'Bearer letmein' } })
+    expect(res.status).toBe(200)
+    expect((await res.json()).openapi).toBe('3.1.0')
+  })
+})
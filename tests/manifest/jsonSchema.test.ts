@@ -0,0 +1,101 @@
+import { describe, test, expect } from 'bun:test'
+import { toJsonSchema, fromJsonSchema, JSON_SCHEMA_DIALECT } from '../../manifest/jsonSchema'
+import { validateInput } from '../../manifest/validator'
+import { t } from '../../manifest/types'
+
+const schema = {
+  email: t.string({ description: 'Email.', required: true, format: 'email', maxLength: 200 }),
+  website: t.string({ description: 'Website.', format: 'url' }),
+  code: t.string({ description: 'Code.', pattern: '^[A-Z]{3}$', minLength: 3 }),
+  age: t.integer({ description: 'Age.', min: 0, max: 150 }),
+  score: t.number({ description: 'Score.', min: 0 }),
+  active: t.boolean({ description: 'Active.', default: true, required: true }),
+  tags: t.array({ description: 'Tags.', itemType: 'string', minItems: 1, maxItems: 5 }),
+  address: t.object({ description: 'Address.', required: true, fields: { city: t.string({ description: 'City.', required: true }) } }),
+  status: t.enum({ description: 'Status.', values: ['draft', 'published'] }),
+  kind: t.literal({ description: 'Kind.', value: 'user' }),
+  payment: t.union({
+    description: 'Payment.',
+    discriminator: 'method',
+    variants: [
+      t.object({ description: 'Card.', fields: { method: t.literal({ description: 'Card.', value: 'card', required: true }), last4: t.string({ description: 'Last four.', required: true }) } }),
+      t.object({ description: 'Invoice.', fields: { method: t.literal({ description: 'Invoice.', value: 'invoice', required: true }) } }),
+    ],
+  }),
+}
+
+describe('toJsonSchema', () => {
+  test('maps fields to draft 2020-12 keywords', () => {
+    const json = toJsonSchema(schema)
+    expect(json.$schema).toBe(JSON_SCHEMA_DIALECT)
+    expect(json.type).toBe('object')
+    expect(json.required).toEqual(['email', 'address'])
+    expect(json.properties!.email).toEqual({ description: 'Email.', type: 'string', format: 'email', maxLength: 200 })
+    expect(json.properties!.website!.format).toBe('uri')
+    expect(json.properties!.code).toEqual({ description: 'Code.', type: 'string', pattern: '^[A-Z]{3}$', minLength: 3 })
+    expect(json.properties!.age).toEqual({ description: 'Age.', type: 'integer', minimum: 0, maximum: 150 })
+    expect(json.properties!.active).toEqual({ description: 'Active.', type: 'boolean', default: true })
+    expect(json.properties!.tags).toEqual({ description: 'Tags.', type: 'array', items: { type: 'string' }, minItems: 1, maxItems: 5 })
+    expect(json.properties!.address!.required).toEqual(['city'])
+    expect(json.properties!.status!.enum).toEqual(['draft', 'published'])
+    expect(json.properties!.kind!.const).toBe('user')
+    expect(json.properties!.payment!.oneOf).toHaveLength(2)
+  })
+
+  test('closes objects with unknownFields: reject and can omit the dialect', () => {
+    const json = toJsonSchema(schema, { unknownFields: 'reject', dialect: false })
+    expect(json.$schema).toBeUndefined()
+    expect(json.additionalProperties).toBe(false)
+    expect(json.properties!.address!.additionalProperties).toBe(false)
+  })
+})
+
+describe('fromJsonSchema', () => {
+  test('round-trips an input schema', () => {
+    const fields = fromJsonSchema(toJsonSchema(schema))
+    expect(fields.email).toEqual({ type: 'string', description: 'Email.', required: true, format: 'email', maxLength: 200 })
+    expect(fields.active).toEqual({ type: 'boolean', description: 'Active.', required: false, default: true })
+    expect(fields.payment).toMatchObject({ type: 'union', discriminator: 'method' })
+    expect(toJsonSchema(fields)).toEqual(toJsonSchema(schema))
+  })
+
+  test('produces fields that validate like the original', () => {
+    const fields = fromJsonSchema({
+      type: 'object',
+      required: ['id', 'items'],
+      properties: {
+        id: { type: 'string', format: 'uuid' },
+        note: { type: ['string', 'null'], title: 'Note.' },
+        items: { type: 'array', items: { type: 'object', required: ['qty'], properties: { qty: { type: 'integer', minimum: 1 } } } },
+      },
+    })
+    expect(fields.note).toMatchObject({ type: 'string', description: 'Note.', required: false })
+    expect(validateInput(fields, { id: 'nope', items: [{ qty: 0 }, {}] })).toEqual({
+      id: 'invalid_format',
+      'items.0.qty': 'min',
+      'items.1.qty': 'required',
+    })
+  })
+
+  test('picks a discriminator only when its values tell variants apart', () => {
+    const variant = (kind: string, extra: Record<string, unknown>) => ({
+      type: 'object',
+      properties: { version: { const: 1 }, kind: { const: kind }, ...extra },
+    })
+    const fields = fromJsonSchema({
+      type: 'object',
+      properties: {
+        shape: { oneOf: [variant('circle', { r: { type: 'number' } }), variant('square', { side: { type: 'number' } })] },
+        flag: { oneOf: [variant('a', {}), variant('a', {})] },
+      },
+    })
+    expect(fields.shape).toMatchObject({ type: 'union', discriminator: 'kind' })
+    expect(fields.flag).not.toHaveProperty('discriminator')
+  })
+
+  test('throws on schemas with no field equivalent', () => {
+    expect(() => fromJsonSchema({ type: 'string' })).toThrow('expected an object schema')
+    expect(() => fromJsonSchema({ type: 'object', properties: { user: { $ref: '#/$defs/user' } } })).toThrow('missing type at user')
+    expect(() => fromJsonSchema({ type: 'object', properties: { n: { type: 'null' } } })).toThrow("unsupported type 'null' at n")
+  })
+})
@@ -0,0 +1,184 @@
+import { describe, test, expect } from 'bun:test'
+import { createMcpHandler, handleMcpHttp, featureToTool, type McpCallContext } from '../../manifest/mcp'
+import { scanFeatures } from '../../manifest/scanner'
+import { bearerToken } from '../../manifest/auth'
+import { defineFeature } from '../../manifest/feature'
+import { t } from '../../manifest/types'
+import manifestConfig from '../../config/manifest'
+import type { AccessLog, SparkEvent } from '../../services/sparkDb'
+import path from 'path'
+
+const registry = await scanFeatures(path.resolve(__dirname, 'fixtures'))
+registry['limited'] = defineFeature({
+  name: 'limited',
+  description: 'Test feature with a tight rate limit.',
+  authentication: 'none',
+  rateLimit: { max: 1, windowSeconds: 60 },
+  sideEffects: ['Counts calls'],
+  errorCases: ['429 - Too many calls'],
+  input: { note: t.string({ description: 'A note.' }) },
+  async handle({ ok }) { return ok('Counted') },
+})
+
+const handler = createMcpHandler({
+  registry,
+  authenticate: bearerToken({ verify: (token) => (token === 'secret' ? { id: 'user-1' } : null) }),
+})
+
+function context(headers: Record<string, string> = {}, notifications: unknown[] = []): McpCallContext {
+  return { req: new Request('http://localhost/__mcp', { headers }), clientKey: 'test', notify: (n) => notifications.push(n) }
+}
+
+async function callTool(name: string, args: Record<string, unknown>, ctx = context(), meta?: Record<string, unknown>) {
+  const response = await handler.handle({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: args, _meta: meta } }, ctx)
+  return (response!.result as any)
+}
+
+describe('MCP protocol', () => {
+  test('negotiates the protocol version on initialize', async () => {
+    const response = await handler.handle({ jsonrpc: '2.0', id: 1, method: 'initialize', params: { protocolVersion: '2025-03-26' } }, context())
+    expect((response!.result as any).protocolVersion).toBe('2025-03-26')
+    expect((response!.result as any).capabilities.tools).toBeDefined()
+  })
+
+  test('ignores notifications and reports unknown methods', async () => {
+    expect(await handler.handle({ jsonrpc: '2.0', method: 'notifications/initialized' }, context())).toBeNull()
+    const response = await handler.handle({ jsonrpc: '2.0', id: 2, method: 'resources/list' }, context())
+    expect(response!.error!.code).toBe(-32601)
+  })
+
+  test('lists request and stream features as tools, not event features', async () => {
+    const response = await handler.handle({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, context())
+    const names = (response!.result as any).tools.map((tool: { name: string }) => tool.name)
+    expect(names).toContain('ship-order')
+    expect(names).toContain('basic-stream')
+    expect(names).not.toContain('notify-shipped')
+  })
+
+  test('builds the tool description and input schema from the feature', () => {
+    const tool = featureToTool(registry['limited']!)
+    expect(tool.description).toBe('Test feature with a tight rate limit.\n\nSide effects:\n- Counts calls\n\nError cases:\n- 429 - Too many calls')
+    expect(tool.inputSchema).toEqual({ type: 'object', properties: { note: { description: 'A note.', type: 'string' } } })
+  })
+})
+
+describe('MCP tool calls', () => {
+  test('returns the response envelope', async () => {
+    const result = await callTool('book-stay', { checkIn: '2026-05-01', checkOut: '2026-05-03', guests: 2 })
+    expect(result.isError).toBe(false)
+    expect(result.structuredContent.data).toEqual({ nights: 2 })
+    expect(JSON.parse(result.content[0].text).meta.feature).toBe('book-stay')
+  })
+
+  test('validates input like the HTTP API', async () => {
+    const result = await callTool('book-stay', { checkIn: '2026-05-03', checkOut: '2026-05-01', guests: 2 })
+    expect(result.isError).toBe(true)
+    expect(result.structuredContent).toMatchObject({ status: 422, errors: { checkOut: 'before_check_in' } })
+  })
+
+  test('authenticates with the request headers', async () => {
+    const anonymous = await callTool('required-auth', {})
+    expect(anonymous.structuredContent.status).toBe(401)
+    const signedIn = await callTool('required-auth', {}, context({ Authorization: 'Bearer secret' }))
+    expect(signedIn.structuredContent.data).toEqual({ userId: 'user-1' })
+  })
+
+  test('applies the feature rate limit per client', async () => {
+    expect((await callTool('limited', {})).isError).toBe(false)
+    const blocked = await callTool('limited', {})
+    expect(blocked.structuredContent.status).toBe(429)
+  })
+
+  test('sends stream events as progress notifications', async () => {
+    const notifications: any[] = []
+    const result = await callTool('basic-stream', { message: 'hi' }, context({}, notifications), { progressToken: 'tok' })
+    expect(result.isError).toBe(false)
+    expect(result.structuredContent.data.events).toHaveLength(4)
+    expect(notifications.map((n) => n.params.message)).toEqual(['hi', '{"key":"value"}', 'named: hello', 'named-json: {"text":"world"}'])
+    expect(notifications[0]).toMatchObject({ method: 'notifications/progress', params: { progressToken: 'tok', progress: 1 } })
+  })
+
+  test('reports stream fail() as a tool error', async () => {
+    const result = await callTool('fail-stream', {})
+    expect(result.isError).toBe(true)
+    expect(result.structuredContent.message).toBe('Something went wrong')
+  })
+
+  test('logs access and output mismatches like HTTP calls', async () => {
+    const access: AccessLog[] = []
+    const events: SparkEvent[] = []
+    const logged = createMcpHandler({ registry, onAccess: (entry) => access.push(entry), onEvent: (event) => events.push(event) })
+    const response = await logged.handle({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'wrong-output', arguments: {} } }, context())
+    const requestId = (response!.result as any).structuredContent.meta.request_id
+    expect(access).toMatchObject([{ path: '/__mcp', status: 200, feature: 'wrong-output', request_id: requestId }])
+    expect(events).toMatchObject([{ type: 'output-mismatch', feature: 'wrong-output', route: 'MCP wrong-output', traceId: requestId }])
+  })
+
+  test('describes declared output as the tool output schema', () => {
+    const schema = featureToTool(registry['wrong-output']!).outputSchema!
+    expect(schema.required).toEqual(['status', 'message', 'meta'])
+    expect(schema.properties!.data!.properties!.id).toEqual({ description: 'Record id.', type: 'integer' })
+    expect(featureToTool(registry['limited']!).outputSchema).toBeUndefined()
+  })
+
+  test('rejects unknown tools', async () => {
+    const response = await handler.handle({ jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'notify-shipped' } }, context())
+    expect(response!.error!.code).toBe(-32602)
+  })
+})
+
+describe('handleMcpHttp', () => {
+  function post(body: unknown) {
+    return new Request('http://localhost/__mcp', { method: 'POST', body: JSON.stringify(body), headers: { 'content-type': 'application/json' } })
+  }
+
+  test('answers requests with JSON and notifications with 202', async () => {
+    const res = await handleMcpHttp(handler, post({ jsonrpc: '2.0', id: 7, method: 'ping' }), 'http')
+    expect(await res.json()).toEqual({ jsonrpc: '2.0', id: 7, result: {} })
+    const accepted = await handleMcpHttp(handler, post({ jsonrpc: '2.0', method: 'notifications/initialized' }), 'http')
+    expect(accepted.status).toBe(202)
+  })
+
+  test('streams progress then the response for tool calls with a progressToken', async () => {
+    const res = await handleMcpHttp(handler, post({
+      jsonrpc: '2.0', id: 3, method: 'tools/call',
+      params: { name: 'basic-stream', arguments: { message: 'hi' }, _meta: { progressToken: 1 } },
+    }), 'http')
+    expect(res.headers.get('content-type')).toBe('text/event-stream')
+    const messages = (await res.text()).trim().split('\n\n').map((chunk) => JSON.parse(chunk.split('data: ')[1]!))
+    expect(messages).toHaveLength(5)
+    expect(messages[4].id).toBe(3)
+  })
+
+  test('rejects GET and malformed JSON', async () => {
+    expect((await handleMcpHttp(handler, new Request('http://localhost/__mcp'), 'http')).status).toBe(405)
+    const bad = new Request('http://localhost/__mcp', { method: 'POST', body: '{nope', headers: { 'content-type': 'application/json' } })
+    expect((await handleMcpHttp(handler, bad, 'http')).status).toBe(400)
+  })
+
+  test('answers an internal error when the handler throws', async () => {
+    const broken = { tools: () => [], handle: async () => { throw new Error('boom') } }
+    const error = console.error
+    console.error = () => {}
+    try {
+      const res = await handleMcpHttp(broken, post({ jsonrpc: '2.0', id: 9, method: 'ping' }), 'http')
+      expect(await res.json()).toEqual({ jsonrpc: '2.0', id: 9, error: { code: -32603, message: 'Internal error' } })
+    } finally {
+      console.error = error
+    }
+  })
+
+  test('rejects bodies that are not JSON or over maxBodySize', async () => {
+    const form = new Request('http://localhost/__mcp', { method: 'POST', body: 'a=1', headers: { 'content-type': 'application/x-www-form-urlencoded' } })
+    expect((await handleMcpHttp(handler, form, 'http')).status).toBe(415)
+
+    const original = manifestConfig.maxBodySize
+    manifestConfig.maxBodySize = 64
+    try {
+      const res = await handleMcpHttp(handler, post({ jsonrpc: '2.0', id: 1, method: 'ping', params: { pad: 'x'.repeat(100) } }), 'http')
+      expect(res.status).toBe(413)
+    } finally {
+      manifestConfig.maxBodySize = original
+    }
+  })
+})
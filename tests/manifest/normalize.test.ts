@@ -0,0 +1,87 @@
+import { describe, test, expect } from 'bun:test'
+import { normalizeInput } from '../../manifest/normalize'
+import { validateInput } from '../../manifest/validator'
+import { t } from '../../manifest/types'
+
+const schema = {
+  limit: t.integer({ description: 'Page size.', default: 20 }),
+  email: t.string({ description: 'Email.', format: 'email', trim: true, lowercase: true }),
+  since: t.string({ description: 'Start date.', format: 'date', toDate: true }),
+  tags: t.array({ description: 'Tags.', itemType: 'string', default: ['general'] }),
+  filter: t.object({
+    description: 'Filter.',
+    fields: {
+      sort: t.enum({ description: 'Sort order.', values: ['asc', 'desc'], default: 'asc' }),
+    },
+  }),
+}
+
+describe('normalizeInput', () => {
+  test('applies defaults for missing and null fields', () => {
+    expect(normalizeInput(schema, {})).toEqual({ limit: 20, tags: ['general'] })
+    expect(normalizeInput(schema, { limit: null }).limit).toBe(20)
+  })
+
+  test('keeps given values over defaults', () => {
+    expect(normalizeInput(schema, { limit: 5 }).limit).toBe(5)
+  })
+
+  test('clones default values', () => {
+    const first = normalizeInput(schema, {})
+    ;(first.tags as string[]).push('mutated')
+    expect(normalizeInput(schema, {}).tags).toEqual(['general'])
+  })
+
+  test('trims and lowercases strings', () => {
+    expect(normalizeInput(schema, { email: '  Jane@Example.COM ' }).email).toBe('jane@example.com')
+  })
+
+  test('turns valid dates into Date objects', () => {
+    const result = normalizeInput(schema, { since: '2026-01-15' })
+    expect(result.since).toBeInstanceOf(Date)
+    expect(validateInput(schema, result)).toEqual({})
+  })
+
+  test('leaves unparseable dates as strings for validation to reject', () => {
+    const result = normalizeInput(schema, { since: 'yesterday' })
+    expect(result.since).toBe('yesterday')
+    expect(validateInput(schema, result)).toEqual({ since: 'invalid_format' })
+  })
+
+  test('normalizes nested objects', () => {
+    expect(normalizeInput(schema, { filter: {} }).filter).toEqual({ sort: 'asc' })
+  })
+
+  test('does not modify the original input', () => {
+    const data = { email: ' A@B.CO ' }
+    normalizeInput(schema, data)
+    expect(data.email).toBe(' A@B.CO ')
+  })
+})
+
+describe('normalizeInput unknown fields', () => {
+  const profile = {
+    name: t.string({ description: 'Name.' }),
+    address: t.object({ description: 'Address.', fields: { city: t.string({ description: 'City.' }) } }),
+  }
+
+  test('keeps unknown fields by default', () => {
+    expect(normalizeInput(profile, { name: 'A', isAdmin: true })).toEqual({ name: 'A', isAdmin: true })
+  })
+
+  test('strips unknown fields, including nested ones', () => {
+    const result = normalizeInput(profile, { name: 'A', isAdmin: true, address: { city: 'B', zip: 1 } }, { unknownFields: 'strip' })
+    expect(result).toEqual({ name: 'A', address: { city: 'B' } })
+  })
+
+  test('keeps __proto__ as a plain key instead of a prototype', () => {
+    const result = normalizeInput(profile, JSON.parse('{"name":"A","__proto__":{"isAdmin":true}}'))
+    expect(result.isAdmin).toBeUndefined()
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+    expect(Object.keys(result)).toEqual(['name', '__proto__'])
+  })
+
+  test('keeps allowKeys when stripping', () => {
+    expect(normalizeInput(profile, { id: '42', extra: 1 }, { unknownFields: 'strip', allowKeys: ['id'] })).toEqual({ id: '42' })
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, test, expect } from 'bun:test'
+import { generateOpenApi } from '../../manifest/openapi'
+import { defineFeature } from '../../manifest/feature'
+import { t } from '../../manifest/types'
+
+const features = {
+  'get-user': defineFeature({
+    name: 'get-user',
+    description: 'Gets a user by ID.',
+    route: ['GET', '/api/users/:id'],
+    authentication: 'required',
+    errorCases: ['404 - User not found', '401 - Not signed in'],
+    input: {
+      id: t.string({ description: 'User ID.', required: true, format: 'uuid' }),
+      fields: t.array({ description: 'Fields to include.', itemType: 'string' }),
+    },
+    output: { id: t.string({ description: 'User ID.', required: true }) },
+    async handle({ ok }) { return ok('Got user') },
+  }),
+  'update-user': defineFeature({
+    name: 'update-user',
+    description: 'Updates a user.',
+    route: ['PATCH', '/api/users/:id'],
+    authentication: 'optional',
+    rateLimit: { max: 5, windowSeconds: 60 },
+    input: {
+      name: t.string({ description: 'New name.', required: true, maxLength: 50 }),
+    },
+    async handle({ ok }) { return ok('Updated') },
+  }),
+  'tail-logs': defineFeature({
+    name: 'tail-logs',
+    description: 'Streams log lines.',
+    route: ['GET', '/api/logs'],
+    type: 'stream',
+    authentication: 'none',
+    input: {},
+    async stream({ close }) { close() },
+  }),
+  'user-created': defineFeature({
+    name: 'user-created',
+    description: 'Internal event.',
+    type: 'event',
+    trigger: 'user.created',
+    input: {},
+    async handle({ ok }) { return ok('Handled') },
+  }),
+}
+
+const doc = generateOpenApi(features, { title: 'Test API', version: '1.2.3', serverUrl: 'http://localhost:8080' })
+const paths = doc.paths as Record<string, Record<string, any>>
+
+describe('generateOpenApi', () => {
+  test('describes the document and skips features without a route', () => {
+    expect(doc.openapi).toBe('3.1.0')
+    expect(doc.info).toEqual({ title: 'Test API', version: '1.2.3' })
+    expect(doc.servers).toEqual([{ url: 'http://localhost:8080' }])
+    expect(Object.keys(paths).sort()).toEqual(['/api/logs', '/api/users/{id}'])
+  })
+
+  test('maps path params and GET inputs to parameters', () => {
+    const op = paths['/api/users/{id}']!.get
+    expect(op.operationId).toBe('get-user')
+    expect(op.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, description: 'User ID.', schema: { type: 'string', format: 'uuid' } },
+      { name: 'fields', in: 'query', required: false, description: 'Fields to include.', schema: { type: 'array', items: { type: 'string' } } },
+    ])
+    expect(op.requestBody).toBeUndefined()
+  })
+
+  test('maps body-method inputs to a JSON request body', () => {
+    const op = paths['/api/users/{id}']!.patch
+    expect(op.parameters).toEqual([{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }])
+    expect(op.requestBody.required).toBe(true)
+    expect(op.requestBody.content['application/json'].schema).toEqual({
+      type: 'object',
+      properties: { name: { description: 'New name.', type: 'string', maxLength: 50 } },
+      required: ['name'],
+    })
+  })
+
+  test('documents server responses, error cases and the output schema', () => {
+    const get = paths['/api/users/{id}']!.get
+    expect(Object.keys(get.responses).sort()).toEqual(['200', '401', '404', '405', '422', '500'])
+    expect(get.responses['401']).toEqual({ $ref: '#/components/responses/Unauthorized' })
+    expect(get.responses['404'].description).toBe('User not found')
+    const schema = get.responses['200'].content['application/json'].schema
+    expect(schema.allOf[0]).toEqual({ $ref: '#/components/schemas/ResponseEnvelope' })
+    expect(schema.allOf[1].properties.data.required).toEqual(['id'])
+
+    const patch = paths['/api/users/{id}']!.patch
+    expect(Object.keys(patch.responses).sort()).toEqual(['200', '400', '405', '413', '415', '422', '429', '500'])
+  })
+
+  test('documents stream features as text/event-stream', () => {
+    const op = paths['/api/logs']!.get
+    expect(Object.keys(op.responses['200'].content)).toEqual(['text/event-stream'])
+    expect(op.security).toEqual([])
+  })
+
+  test('declares bearer security by authentication mode', () => {
+    expect(paths['/api/users/{id}']!.get.security).toEqual([{ bearerAuth: [] }])
+    expect(paths['/api/users/{id}']!.patch.security).toEqual([{ bearerAuth: [] }, {}])
+    expect(doc.components.securitySchemes).toEqual({ bearerAuth: { type: 'http', scheme: 'bearer' } })
+  })
+
+  test('documents each shape of a route with optional params and constraints', () => {
+    const files = generateOpenApi({
+      'get-file': defineFeature({
+        name: 'get-file',
+        description: 'Gets a file.',
+        route: ['GET', '/api/files/:version(\\d+)?/*path'],
+        authentication: 'none',
+        input: {},
+        async handle({ ok }) { return ok('Got file') },
+      }),
+    }, { title: 'Test', version: '1.0.0' }).paths as Record<string, Record<string, any>>
+
+    expect(Object.keys(files)).toEqual(['/api/files/{version}/{path}', '/api/files/{path}'])
+    const full = files['/api/files/{version}/{path}']!.get
+    expect(full.operationId).toBe('get-file')
+    expect(full.parameters[0]).toEqual({ name: 'version', in: 'path', required: true, schema: { type: 'string', pattern: '^(?:\\d+)$' } })
+    expect(files['/api/files/{path}']!.get.operationId).toBe('get-file-2')
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
+import { diffRoutes, featureDirs } from '../../manifest/reload'
+import { createManifestServer } from '../../manifest/server'
+import type { AnyFeatureDef } from '../../manifest/feature'
+import manifestConfig from '../../config/manifest'
+import fs from 'fs'
+import path from 'path'
+import { createTempProject, featureModule } from './tempProject'
+
+function featureSource(name: string, route: string, message: string, delayMs = 0) {
+  return featureModule(`  name: '${name}',
+  description: 'Test feature.',
+  route: ['GET', '${route}'],
+  authentication: 'none',
+  sideEffects: [],
+  errorCases: [],
+  input: {},
+  async handle({ ok }) {
+    await Bun.sleep(${delayMs})
+    return ok('${message}')
+  },`)
+}
+
+function feature(name: string, route?: AnyFeatureDef['route']): AnyFeatureDef {
+  return { name, route } as AnyFeatureDef
+}
+
+describe('diffRoutes', () => {
+  test('reports added, removed and changed routes by feature', () => {
+    const before = { a: feature('a', ['GET', '/a']), b: feature('b', ['GET', '/b']), c: feature('c', ['GET', '/c']), e: feature('e') }
+    const after = { a: feature('a', ['GET', '/a']), b: feature('b', ['POST', '/b']), d: feature('d', ['GET', '/d']), e: feature('e') }
+    expect(diffRoutes(before, after)).toEqual([
+      { kind: 'changed', feature: 'b', route: ['POST', '/b'], previous: ['GET', '/b'] },
+      { kind: 'removed', feature: 'c', route: ['GET', '/c'] },
+      { kind: 'added', feature: 'd', route: ['GET', '/d'] },
+    ])
+  })
+})
+
+describe('featureDirs', () => {
+  test('lists features/ and the extension feature directories that exist', () => {
+    const project = createTempProject({
+      'features/A.ts': '',
+      'extensions/blog/features/Post.ts': '',
+      'extensions/theme/README.md': '',
+    })
+    try {
+      expect(featureDirs(project.dir)).toEqual([
+        path.join(project.dir, 'features'),
+        path.join(project.dir, 'extensions/blog/features'),
+      ])
+    } finally {
+      project.remove()
+    }
+  })
+})
+
+describe('reloadFeatures', () => {
+  const project = createTempProject()
+  let server: Awaited<ReturnType<typeof createManifestServer>>
+  let base: string
+  const { hotReload } = manifestConfig
+
+  beforeAll(async () => {
+    // The test drives reloads itself instead of waiting on the file watcher
+    manifestConfig.hotReload = false
+    project.write('features/Greet.ts', featureSource('greet', '/api/greet', 'Hello'))
+    project.write('features/Slow.ts', featureSource('slow', '/api/slow', 'Old', 200))
+    server = await createManifestServer({ projectDir: project.dir, port: 0 })
+    base = `http://localhost:${server.port}`
+  })
+
+  afterAll(() => {
+    server.stop()
+    manifestConfig.hotReload = hotReload
+    project.remove()
+  })
+
+  test('serves edited, added and removed features without restarting', async () => {
+    expect((await (await fetch(`${base}/api/greet`)).json()).message).toBe('Hello')
+
+    project.write('features/Greet.ts', featureSource('greet', '/api/greet', 'Hi there'))
+    project.write('features/Wave.ts', featureSource('wave', '/api/wave', 'Wave'))
+    const changes = await server.reloadFeatures()
+
+    expect(changes).toEqual([{ kind: 'added', feature: 'wave', route: ['GET', '/api/wave'] }])
+    expect((await (await fetch(`${base}/api/greet`)).json()).message).toBe('Hi there')
+    expect((await (await fetch(`${base}/api/wave`)).json()).message).toBe('Wave')
+
+    fs.rmSync(path.join(project.dir, 'features/Wave.ts'))
+    expect(await server.reloadFeatures()).toEqual([{ kind: 'removed', feature: 'wave', route: ['GET', '/api/wave'] }])
+    expect((await fetch(`${base}/api/wave`)).status).toBe(404)
+  })
+
+  test('in-flight requests finish on the old definition', async () => {
+    const inFlight = fetch(`${base}/api/slow`)
+    await Bun.sleep(50)
+    project.write('features/Slow.ts', featureSource('slow', '/api/slow', 'New'))
+    await server.reloadFeatures()
+
+    expect((await (await inFlight).json()).message).toBe('Old')
+    expect((await (await fetch(`${base}/api/slow`)).json()).message).toBe('New')
+  })
+
+  test('keeps the current features when a module fails to load', async () => {
+    project.write('features/Broken.ts', 'export default {{{')
+    await expect(server.reloadFeatures()).rejects.toThrow('Failed to load feature from Broken.ts')
+    fs.rmSync(path.join(project.dir, 'features/Broken.ts'))
+
+    expect((await (await fetch(`${base}/api/greet`)).json()).message).toBe('Hi there')
+  })
+})
@@ -0,0 +1,73 @@
+/**
+ * Router benchmark: the trie against a linear scan over every route (the
+ * previous router), with a few hundred routes.
+ *
+ *   bun tests/manifest/router.bench.ts
+ */
+
+import { createRouter } from '../../manifest/router'
+import { defineFeature, type AnyFeatureDef } from '../../manifest/feature'
+
+const RESOURCES = 60
+const registry: Record<string, AnyFeatureDef> = {}
+for (let i = 0; i < RESOURCES; i++) {
+  const routes: [('GET' | 'POST' | 'PATCH' | 'DELETE'), string][] = [
+    ['GET', `/api/resource${i}`],
+    ['POST', `/api/resource${i}`],
+    ['GET', `/api/resource${i}/:id`],
+    ['PATCH', `/api/resource${i}/:id`],
+    ['DELETE', `/api/resource${i}/:id`],
+    ['GET', `/api/resource${i}/:id/items/:itemId`],
+  ]
+  for (const [j, route] of routes.entries()) {
+    const name = `r${i}-${j}`
+    registry[name] = defineFeature({ name, description: 'Bench.', route, input: {}, async handle({ ok }) { return ok('Done') } })
+  }
+}
+
+/** The previous router: compare segment arrays entry by entry. */
+function createLinearRouter(features: Record<string, AnyFeatureDef>) {
+  const entries = Object.values(features).map((feature) => ({
+    method: feature.route![0],
+    segments: feature.route![1].split('/').filter(Boolean),
+    feature,
+  }))
+  return {
+    match(method: string, path: string) {
+      const pathSegments = path.split('/').filter(Boolean)
+      let pathMatched = false
+      for (const entry of entries) {
+        if (entry.segments.length !== pathSegments.length) continue
+        const params: Record<string, string> = {}
+        let ok = true
+        for (let i = 0; i < entry.segments.length; i++) {
+          const seg = entry.segments[i]!
+          if (seg.startsWith(':')) params[seg.slice(1)] = pathSegments[i]!
+          else if (seg !== pathSegments[i]) { ok = false; break }
+        }
+        if (!ok) continue
+        if (entry.method === method) return { kind: 'matched', feature: entry.feature, params }
+        pathMatched = true
+      }
+      return pathMatched ? { kind: 'method_not_allowed' } : { kind: 'not_found' }
+    },
+  }
+}
+
+const requests: [string, string][] = []
+for (let i = 0; i < RESOURCES; i += 7) {
+  requests.push(['GET', `/api/resource${i}`], ['PATCH', `/api/resource${i}/42`], ['GET', `/api/resource${i}/42/items/7`], ['GET', `/api/missing${i}`])
+}
+
+function bench(label: string, router: { match(method: string, path: string): unknown }) {
+  const iterations = 20_000
+  for (let i = 0; i < 1_000; i++) for (const [m, p] of requests) router.match(m, p)
+  const start = performance.now()
+  for (let i = 0; i < iterations; i++) for (const [m, p] of requests) router.match(m, p)
+  const ns = ((performance.now() - start) * 1e6) / (iterations * requests.length)
+  console.log(`${label.padEnd(8)} ${ns.toFixed(0)} ns/match`)
+}
+
+console.log(`${Object.keys(registry).length} routes, ${requests.length} request shapes`)
+bench('linear', createLinearRouter(registry))
+bench('trie', createRouter(registry))
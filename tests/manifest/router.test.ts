@@ -79,3 +79,93 @@ describe('createRouter', () => {
     expect(match.kind).toBe('not_found')
   })
 })
+
+describe('createRouter patterns', () => {
+  function routed(name: string, route: [('GET' | 'POST'), string]) {
+    return defineFeature({ name, description: 'Test.', route, input: {}, async handle({ ok }) { return ok('Done') } })
+  }
+
+  function matched(router: ReturnType<typeof createRouter>, method: string, path: string) {
+    const match = router.match(method, path)
+    return match.kind === 'matched' ? { feature: match.feature.name, params: match.params } : match.kind
+  }
+
+  test('static segments beat params regardless of registration order', () => {
+    const router = createRouter({
+      'get-user': routed('get-user', ['GET', '/api/users/:id']),
+      'current-user': routed('current-user', ['GET', '/api/users/me']),
+    })
+    expect(matched(router, 'GET', '/api/users/me')).toEqual({ feature: 'current-user', params: {} })
+    expect(matched(router, 'GET', '/api/users/42')).toEqual({ feature: 'get-user', params: { id: '42' } })
+  })
+
+  test('falls back to a param branch when the static branch has no match', () => {
+    const router = createRouter({
+      'user-posts': routed('user-posts', ['GET', '/api/users/:id/posts']),
+      'current-user': routed('current-user', ['GET', '/api/users/me']),
+    })
+    expect(matched(router, 'GET', '/api/users/me/posts')).toEqual({ feature: 'user-posts', params: { id: 'me' } })
+  })
+
+  test('checks regex and named constraints before plain params', () => {
+    const router = createRouter({
+      'by-slug': routed('by-slug', ['GET', '/api/posts/:slug']),
+      'by-id': routed('by-id', ['GET', '/api/posts/:id(\\d+)']),
+      'by-uuid': routed('by-uuid', ['GET', '/api/posts/:uuid<uuid>']),
+    })
+    expect(matched(router, 'GET', '/api/posts/42')).toEqual({ feature: 'by-id', params: { id: '42' } })
+    expect(matched(router, 'GET', '/api/posts/0b6e5c1e-8f4a-4c2e-9d1a-3f5b7c9d2e4f')).toMatchObject({ feature: 'by-uuid' })
+    expect(matched(router, 'GET', '/api/posts/hello-world')).toEqual({ feature: 'by-slug', params: { slug: 'hello-world' } })
+  })
+
+  test('matches optional params with and without the segment', () => {
+    const router = createRouter({ 'list-posts': routed('list-posts', ['GET', '/api/posts/page/:page?']) })
+    expect(matched(router, 'GET', '/api/posts/page')).toEqual({ feature: 'list-posts', params: {} })
+    expect(matched(router, 'GET', '/api/posts/page/3')).toEqual({ feature: 'list-posts', params: { page: '3' } })
+  })
+
+  test('catch-alls match the rest of the path, after everything more specific', () => {
+    const router = createRouter({
+      'get-file': routed('get-file', ['GET', '/files/*path']),
+      'file-index': routed('file-index', ['GET', '/files/index']),
+    })
+    expect(matched(router, 'GET', '/files/docs/a%20b.txt')).toEqual({ feature: 'get-file', params: { path: 'docs/a b.txt' } })
+    expect(matched(router, 'GET', '/files')).toEqual({ feature: 'get-file', params: { path: '' } })
+    expect(matched(router, 'GET', '/files/index')).toEqual({ feature: 'file-index', params: {} })
+  })
+
+  test('decodes param values, keeping malformed ones as sent', () => {
+    const router = createRouter({ 'get-tag': routed('get-tag', ['GET', '/api/tags/:name']) })
+    expect(matched(router, 'GET', '/api/tags/caf%C3%A9')).toEqual({ feature: 'get-tag', params: { name: 'café' } })
+    expect(matched(router, 'GET', '/api/tags/100%')).toEqual({ feature: 'get-tag', params: { name: '100%' } })
+  })
+
+  test('keeps the first of two routes with the same shape', () => {
+    const router = createRouter({
+      first: routed('first', ['GET', '/api/items/:id']),
+      second: routed('second', ['GET', '/api/items/:itemId']),
+    })
+    expect(matched(router, 'GET', '/api/items/1')).toEqual({ feature: 'first', params: { id: '1' } })
+  })
+
+  test('reports method_not_allowed across every matching branch', () => {
+    const router = createRouter({
+      'create-user': routed('create-user', ['POST', '/api/users/:id']),
+      'current-user': routed('current-user', ['GET', '/api/users/me']),
+    })
+    expect(matched(router, 'POST', '/api/users/me')).toEqual({ feature: 'create-user', params: { id: 'me' } })
+    expect(router.match('DELETE', '/api/users/me')).toEqual({ kind: 'method_not_allowed', allowed: ['GET', 'POST'] })
+  })
+
+  test('matches HEAD requests to GET routes', () => {
+    const router = createRouter({ 'current-user': routed('current-user', ['GET', '/api/users/me']) })
+    expect(matched(router, 'HEAD', '/api/users/me')).toEqual({ feature: 'current-user', params: {} })
+    expect(router.match('OPTIONS', '/api/users/me')).toEqual({ kind: 'method_not_allowed', allowed: ['GET'] })
+  })
+
+  test('rejects malformed patterns', () => {
+    expect(() => createRouter({ bad: routed('bad', ['GET', '/files/*path/more']) })).toThrow("Invalid route GET /files/*path/more (bad): Catch-all '*path' must be the last segment")
+    expect(() => createRouter({ bad: routed('bad', ['GET', '/api/:id<nope>']) })).toThrow("Unknown constraint '<nope>'")
+    expect(() => createRouter({ bad: routed('bad', ['GET', '/api/:id([a-z)']) })).toThrow('Invalid route')
+  })
+})
@@ -0,0 +1,74 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
+import { createManifestServer } from '../../manifest/server'
+import path from 'path'
+
+describe('/__rpc', () => {
+  let server: Awaited<ReturnType<typeof createManifestServer>>
+  let rpcUrl: string
+
+  beforeAll(async () => {
+    // Fixtures include route-less and event features, which only /__rpc reaches
+    const fixturesDir = path.resolve(__dirname, 'fixtures')
+    server = await createManifestServer({ projectDir: fixturesDir, featuresDir: fixturesDir, port: 0 })
+    rpcUrl = `http://localhost:${server.port}/__rpc`
+  })
+
+  afterAll(() => {
+    server.stop()
+  })
+
+  function rpc(body: unknown) {
+    return fetch(rpcUrl, { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify(body) })
+  }
+
+  test('calls a route-less feature by name', async () => {
+    const res = await rpc({ feature: 'add-numbers', input: { a: 2, b: 3 } })
+    const body = await res.json()
+    expect(res.status).toBe(200)
+    expect(body.data).toEqual({ sum: 5 })
+    expect(body.meta.feature).toBe('add-numbers')
+  })
+
+  test('calls event features directly', async () => {
+    const body = await (await rpc({ feature: 'order-placed', input: { orderId: 'o-1' } })).json()
+    expect(body.message).toBe('Handled o-1')
+  })
+
+  test('answers a batch with one envelope per call, each with its own request id', async () => {
+    const res = await rpc([
+      { feature: 'order-placed', input: { orderId: 'o-2' } },
+      { feature: 'order-placed', input: {} },
+      { feature: 'missing' },
+      { feature: 'required-auth' },
+    ])
+    const body = await res.json()
+    expect(res.status).toBe(200)
+    expect(body.map((e: { status: number }) => e.status)).toEqual([200, 422, 404, 401])
+    expect(body[1].errors).toEqual({ orderId: 'required' })
+    expect(new Set(body.map((e: { meta: { request_id: string } }) => e.meta.request_id)).size).toBe(4)
+  })
+
+  test('applies feature rate limits', async () => {
+    const statuses = []
+    for (let i = 0; i < 4; i++) statuses.push((await rpc({ feature: 'add-numbers', input: { a: 1, b: 1 } })).status)
+    expect(statuses).toContain(429)
+  })
+
+  test('rejects malformed calls', async () => {
+    expect((await rpc({ input: {} })).status).toBe(400)
+    expect((await rpc({ feature: 'add-numbers', input: [1] })).status).toBe(400)
+    expect((await fetch(rpcUrl)).status).toBe(405)
+    const bad = await fetch(rpcUrl, { method: 'POST', headers: { 'content-type': 'application/json' }, body: '{nope' })
+    expect(bad.status).toBe(400)
+  })
+
+  test('refuses bodies that are not JSON, which cross-site forms can send without a preflight', async () => {
+    const call = JSON.stringify({ feature: 'order-placed', input: { orderId: 'o-3' } })
+    for (const contentType of ['text/plain', 'application/x-www-form-urlencoded', 'multipart/form-data; boundary=x']) {
+      const res = await fetch(rpcUrl, { method: 'POST', headers: { 'content-type': contentType }, body: call })
+      expect(res.status).toBe(415)
+      expect((await res.json()).message).toContain('Send application/json')
+    }
+    expect((await fetch(rpcUrl, { method: 'POST', body: call })).status).toBe(415)
+  })
+})
@@ -1,6 +1,8 @@
-import { describe, test, expect } from 'bun:test'
+import { describe, test, expect, afterAll } from 'bun:test'
 import { scanFeatures } from '../../manifest/scanner'
+import fs from 'fs'
 import path from 'path'
+import { createTempProject, featureModule, manifestDir } from './tempProject'
 
 describe('scanFeatures', () => {
   test('scans features directory and returns registry', async () => {
@@ -27,3 +29,82 @@ describe('scanFeatures', () => {
     expect(feature!.description).toContain('greeting')
   })
 })
+
+describe('scanFeatures in nested folders', () => {
+  const project = createTempProject()
+  const featuresDir = project.dir
+  const write = project.write
+
+  function featureSource(name: string, route: string, extra = '') {
+    return featureModule(`  name: '${name}',
+  description: 'Test feature.',
+  route: ['GET', '${route}'],
+  ${extra}
+  input: {},
+  async handle({ ok }) { return ok('Done') },`)
+  }
+
+  function groupSource(options: string) {
+    return `import { defineGroup } from '${manifestDir}'\nexport default defineGroup(${options})\n`
+  }
+
+  write('Health.ts', featureSource('health', '/health', "authentication: 'none',"))
+  write('users/_group.ts', groupSource("{ routePrefix: '/api/users', authentication: 'none' }"))
+  write('users/ListUsers.ts', featureSource('list-users', '/'))
+  write('users/admin/_group.ts', groupSource("{ routePrefix: 'admin/', authentication: 'required', rateLimit: { max: 5, windowSeconds: 60 } }"))
+  write('users/admin/BanUser.ts', featureSource('ban-user', '/:id/ban'))
+  write('users/admin/Audit.ts', featureSource('audit', '/audit', "authentication: 'optional', rateLimit: { max: 100, windowSeconds: 60 },"))
+  write('users/admin/Audit.test.ts', 'throw new Error("tests are not features")')
+
+  afterAll(() => {
+    project.remove()
+  })
+
+  test('scans subfolders and records the folder as namespace', async () => {
+    const registry = await scanFeatures(featuresDir)
+    expect(Object.keys(registry).sort()).toEqual(['audit', 'ban-user', 'health', 'list-users'])
+    expect(registry['health']!._namespace).toBeUndefined()
+    expect(registry['list-users']!._namespace).toBe('users')
+    expect(registry['ban-user']!._namespace).toBe('users/admin')
+  })
+
+  test('applies _group.ts defaults from every folder above the feature', async () => {
+    const registry = await scanFeatures(featuresDir)
+    expect(registry['health']!.route).toEqual(['GET', '/health'])
+    expect(registry['list-users']!.route).toEqual(['GET', '/api/users'])
+    expect(registry['list-users']!.authentication).toBe('none')
+    expect(registry['ban-user']!.route).toEqual(['GET', '/api/users/admin/:id/ban'])
+    expect(registry['ban-user']!.authentication).toBe('required')
+    expect(registry['ban-user']!.rateLimit).toEqual({ max: 5, windowSeconds: 60 })
+  })
+
+  test('settings on the feature win over group defaults', async () => {
+    const registry = await scanFeatures(featuresDir)
+    expect(registry['audit']!.authentication).toBe('optional')
+    expect(registry['audit']!.rateLimit).toEqual({ max: 100, windowSeconds: 60 })
+  })
+
+  test('does not apply group defaults twice when scanned again', async () => {
+    await scanFeatures(featuresDir)
+    const registry = await scanFeatures(featuresDir)
+    expect(registry['ban-user']!.route).toEqual(['GET', '/api/users/admin/:id/ban'])
+  })
+
+  test('reports name collisions and keeps the first file in path order', async () => {
+    write('users/admin/Ban.ts', featureSource('ban-user', '/ban-other'))
+    const errors: string[] = []
+    const original = console.error
+    console.error = (...args: unknown[]) => { errors.push(args.join(' ')) }
+    try {
+      const registry = await scanFeatures(featuresDir)
+      expect(registry['ban-user']!.route).toEqual(['GET', '/api/users/admin/ban-other'])
+      expect(errors).toEqual([
+        "[manifest] Feature 'ban-user' is defined in both users/admin/Ban.ts and users/admin/BanUser.ts — using users/admin/Ban.ts",
+      ])
+      await expect(scanFeatures(featuresDir, { strict: true })).rejects.toThrow("Feature 'ban-user' is defined in both")
+    } finally {
+      console.error = original
+      fs.rmSync(path.join(featuresDir, 'users/admin/Ban.ts'))
+    }
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
+import { buildCsp, injectNonce, createNonce, securityHeaders } from '../../manifest/security'
+import { createManifestServer } from '../../manifest/server'
+import manifestConfig from '../../config/manifest'
+import path from 'path'
+import { createTempProject } from './tempProject'
+
+describe('buildCsp', () => {
+  test('joins directives and their sources', () => {
+    expect(buildCsp({ 'default-src': ["'self'"], 'img-src': ["'self'", 'data:'] })).toBe("default-src 'self'; img-src 'self' data:")
+  })
+
+  test("replaces 'nonce' with the response nonce", () => {
+    expect(buildCsp({ 'script-src': ["'self'", "'nonce'"] }, 'abc')).toBe("script-src 'self' 'nonce-abc'")
+  })
+
+  test("drops 'nonce' without a nonce", () => {
+    expect(buildCsp({ 'script-src': ["'self'", "'nonce'"] })).toBe("script-src 'self'")
+  })
+
+  test('writes directives without sources alone', () => {
+    expect(buildCsp({ 'default-src': ["'self'"], 'upgrade-insecure-requests': [] })).toBe("default-src 'self'; upgrade-insecure-requests")
+  })
+})
+
+describe('injectNonce', () => {
+  test('adds the nonce to script and style tags', () => {
+    const html = '<style>a{}</style><script src="/index.js"></script><SCRIPT>go()</SCRIPT>'
+    expect(injectNonce(html, 'n1')).toBe('<style nonce="n1">a{}</style><script nonce="n1" src="/index.js"></script><SCRIPT nonce="n1">go()</SCRIPT>')
+  })
+
+  test('keeps existing nonces and leaves other tags alone', () => {
+    const html = '<script nonce="mine"></script><scripts></scripts><link rel="stylesheet">'
+    expect(injectNonce(html, 'n1')).toBe(html)
+  })
+
+  test('creates a different nonce every time', () => {
+    expect(createNonce()).not.toBe(createNonce())
+  })
+})
+
+describe('securityHeaders', () => {
+  test('uses the HTML policy for HTML and the API policy for the rest', () => {
+    expect(securityHeaders('text/html; charset=utf-8')['Content-Security-Policy']).toBe(buildCsp(manifestConfig.contentSecurityPolicy))
+    expect(securityHeaders('application/json')['Content-Security-Policy']).toBe(buildCsp(manifestConfig.apiContentSecurityPolicy))
+    expect(securityHeaders(null)['X-Content-Type-Options']).toBe('nosniff')
+  })
+
+  test('sends HSTS only when configured', () => {
+    const { hsts } = manifestConfig
+    try {
+      manifestConfig.hsts = ''
+      expect(securityHeaders('application/json')['Strict-Transport-Security']).toBeUndefined()
+      manifestConfig.hsts = 'max-age=60'
+      expect(securityHeaders('application/json')['Strict-Transport-Security']).toBe('max-age=60')
+    } finally {
+      manifestConfig.hsts = hsts
+    }
+  })
+
+  test('is empty when turned off', () => {
+    manifestConfig.securityHeaders = false
+    try {
+      expect(securityHeaders('text/html')).toEqual({})
+    } finally {
+      manifestConfig.securityHeaders = true
+    }
+  })
+})
+
+describe('security headers on the server', () => {
+  // Features from fixtures/, dist/ from a throwaway project
+  const project = createTempProject({
+    'dist/index.html': '<html><head><style>p{}</style></head><body><script>go()</script></body></html>',
+    'dist/index.js': 'console.log(1)',
+  })
+  let server: Awaited<ReturnType<typeof createManifestServer>>
+  let baseUrl: string
+
+  beforeAll(async () => {
+    server = await createManifestServer({ projectDir: project.dir, featuresDir: path.resolve(__dirname, 'fixtures'), port: 0 })
+    baseUrl = `http://localhost:${server.port}`
+  })
+
+  afterAll(() => {
+    server.stop()
+    project.remove()
+  })
+
+  test('API responses carry the hardening headers and the API policy', async () => {
+    const res = await fetch(`${baseUrl}/api/test/request`)
+    expect(res.status).toBe(200)
+    expect(res.headers.get('x-content-type-options')).toBe('nosniff')
+    expect(res.headers.get('referrer-policy')).toBe(manifestConfig.referrerPolicy)
+    expect(res.headers.get('x-frame-options')).toBe('DENY')
+    expect(res.headers.get('content-security-policy')).toBe("default-src 'none'; frame-ancestors 'none'")
+  })
+
+  test('errors carry them too', async () => {
+    const res = await fetch(`${baseUrl}/api/missing`)
+    expect(res.status).toBe(404)
+    expect(res.headers.get('x-content-type-options')).toBe('nosniff')
+  })
+
+  test('HTML from dist/ gets a per-request nonce matching its policy', async () => {
+    const nonces: string[] = []
+    for (let i = 0; i < 2; i++) {
+      const res = await fetch(`${baseUrl}/`)
+      const html = await res.text()
+      const policy = res.headers.get('content-security-policy')!
+      const nonce = /'nonce-([^']+)'/.exec(policy)![1]!
+      expect(html).toContain(`<style nonce="${nonce}">`)
+      expect(html).toContain(`<script nonce="${nonce}">`)
+      expect(res.headers.get('content-type')).toBe('text/html; charset=utf-8')
+      nonces.push(nonce)
+    }
+    expect(nonces[0]).not.toBe(nonces[1])
+  })
+
+  test('other static files get the API policy', async () => {
+    const res = await fetch(`${baseUrl}/index.js`)
+    expect(res.headers.get('content-type')).toContain('javascript')
+    expect(res.headers.get('content-security-policy')).toBe("default-src 'none'; frame-ancestors 'none'")
+  })
+})
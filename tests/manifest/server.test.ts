@@ -1,6 +1,8 @@
 import { describe, test, expect, beforeAll, afterAll } from 'bun:test'
 import { createManifestServer } from '../../manifest/server'
 import path from 'path'
+import { counted } from './fixtures/CountCalls'
+import { ticked } from './fixtures/TickStream'
 
 describe('createManifestServer', () => {
   let server: Awaited<ReturnType<typeof createManifestServer>>
@@ -43,11 +45,31 @@ describe('createManifestServer', () => {
     expect(body.message).toBe('Method not allowed')
   })
 
+  test('sends Allow with every 405', async () => {
+    const res = await fetch(`${baseUrl}/api/hello`, { method: 'DELETE' })
+    expect(res.headers.get('allow')).toBe('GET, HEAD, OPTIONS')
+  })
+
+  test('answers OPTIONS for routed paths', async () => {
+    const res = await fetch(`${baseUrl}/api/hello`, { method: 'OPTIONS' })
+    expect(res.status).toBe(204)
+    expect(res.headers.get('allow')).toBe('GET, HEAD, OPTIONS')
+    expect((await fetch(`${baseUrl}/api/nonexistent`, { method: 'OPTIONS' })).status).toBe(404)
+  })
+
   test('returns proper content-type header', async () => {
     const res = await fetch(`${baseUrl}/api/hello`)
     expect(res.headers.get('content-type')).toContain('application/json')
   })
 
+  test('serves the OpenAPI document', async () => {
+    const res = await fetch(`${baseUrl}/__openapi.json`)
+    const body = await res.json()
+    expect(res.status).toBe(200)
+    expect(body.openapi).toBe('3.1.0')
+    expect(body.paths['/api/hello'].get.operationId).toBe('hello-world')
+  })
+
   test('handles feature with no input (defaults)', async () => {
     const res = await fetch(`${baseUrl}/api/hello`)
     const body = await res.json()
@@ -55,3 +77,66 @@ describe('createManifestServer', () => {
     expect(body.message).toBe('Hello, World!')
   })
 })
+
+describe('HEAD requests', () => {
+  const fixturesDir = path.resolve(__dirname, 'fixtures')
+  let server: Awaited<ReturnType<typeof createManifestServer>>
+  let baseUrl: string
+
+  beforeAll(async () => {
+    server = await createManifestServer({ projectDir: fixturesDir, featuresDir: fixturesDir, port: 0 })
+    baseUrl = `http://localhost:${server.port}`
+  })
+
+  afterAll(() => {
+    server.stop()
+  })
+
+  test('runs the GET feature once and sends its headers without a body', async () => {
+    const before = counted.calls
+    const res = await fetch(`${baseUrl}/api/test/count`, { method: 'HEAD' })
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toContain('application/json')
+    expect(Number(res.headers.get('content-length'))).toBeGreaterThan(0)
+    expect(await res.text()).toBe('')
+    expect(counted.calls).toBe(before + 1)
+  })
+
+  test('does not start stream features', async () => {
+    const before = ticked.starts
+    const res = await fetch(`${baseUrl}/api/test/ticks`, { method: 'HEAD' })
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toBe('text/event-stream')
+    expect(ticked.starts).toBe(before)
+  })
+})
+
+describe('unknown fields over HTTP', () => {
+  const fixturesDir = path.resolve(__dirname, 'fixtures')
+  let server: Awaited<ReturnType<typeof createManifestServer>>
+  let baseUrl: string
+
+  beforeAll(async () => {
+    server = await createManifestServer({ projectDir: fixturesDir, featuresDir: fixturesDir, port: 0 })
+    baseUrl = `http://localhost:${server.port}`
+  })
+
+  afterAll(() => {
+    server.stop()
+  })
+
+  test('rejects a __proto__ body key instead of merging it into the prototype', async () => {
+    const res = await fetch(`${baseUrl}/api/test/strict`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: '{"title":"Hi","__proto__":{"isAdmin":true}}',
+    })
+    expect(res.status).toBe(422)
+    expect((await res.json()).errors).toEqual({ ['__proto__']: 'unknown_field' })
+  })
+
+  test('accepts query keys named like prototype members', async () => {
+    const res = await fetch(`${baseUrl}/api/test/items?constructor=x&toString=y&__proto__=z`)
+    expect(res.status).toBe(200)
+  })
+})
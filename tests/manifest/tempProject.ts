@@ -0,0 +1,48 @@
+/**
+ * Throwaway projects for tests that need a real project directory:
+ * extensions, a dist/ folder, broken features or feature files that change
+ * while the test runs. Everything else uses the features in fixtures/.
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+/** Import path of manifest/ for feature files written outside the repo. */
+export const manifestDir = path.resolve(__dirname, '../../manifest')
+
+export interface TempProject {
+  dir: string
+  /** Writes a file relative to the project, creating its folders. Returns the full path. */
+  write(file: string, content: string): string
+  remove(): void
+}
+
+/** Creates a project in the temp directory with `files` (relative path → content). */
+export function createTempProject(files: Record<string, string> = {}): TempProject {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'manifest-test-'))
+  const project: TempProject = {
+    dir,
+    write(file, content) {
+      const fullPath = path.join(dir, file)
+      fs.mkdirSync(path.dirname(fullPath), { recursive: true })
+      fs.writeFileSync(fullPath, content)
+      return fullPath
+    },
+    remove() {
+      fs.rmSync(dir, { recursive: true, force: true })
+    },
+  }
+  for (const [file, content] of Object.entries(files)) project.write(file, content)
+  return project
+}
+
+/** A feature module whose defineFeature() call takes `options`, the object literal's body. */
+export function featureModule(options: string): string {
+  return `import { defineFeature, t } from '${manifestDir}'
+
+export default defineFeature({
+${options}
+})
+`
+}
@@ -0,0 +1,70 @@
+import { describe, test, expect } from 'bun:test'
+import { createTestClient } from '../../manifest/testing'
+import path from 'path'
+import bookStay from './fixtures/BookStay'
+import helloWorld from '../../features/HelloWorld'
+
+const client = createTestClient({
+  featuresDir: path.resolve(__dirname, 'fixtures'),
+})
+
+describe('createTestClient output checks', () => {
+  test('reports output schema mismatches in debug mode', async () => {
+    const result = await client.call('wrong-output', {})
+    expect(result.status).toBe(200)
+    expect(result.outputErrors).toEqual({ id: 'invalid_type', 'owner.email': 'invalid_format' })
+  })
+
+  test('omits outputErrors when data matches', async () => {
+    const helloClient = createTestClient({ featuresDir: path.resolve(__dirname, '../../features') })
+    const result = await helloClient.call('hello-world', { name: 'Jane' })
+    expect(result.outputErrors).toBeUndefined()
+  })
+})
+
+describe('createTestClient unknown fields', () => {
+  test('rejects unknown fields for features with unknownFields: reject', async () => {
+    const result = await client.call('strict-input', { title: 'Hi', isAdmin: true })
+    expect(result.status).toBe(422)
+    expect(result.errors).toEqual({ isAdmin: 'unknown_field' })
+  })
+
+  test('strips unknown fields under the global strip policy', async () => {
+    const result = await client.call('echo-input', { title: 'Hi', isAdmin: true })
+    expect(result.status).toBe(200)
+    expect(result.data).toEqual({ title: 'Hi' })
+  })
+})
+
+describe('createTestClient cross-field rules', () => {
+  test('runs the feature validate rules after field checks', async () => {
+    const result = await client.call('book-stay', { checkIn: '2026-05-03', checkOut: '2026-05-01', guests: 2 })
+    expect(result.status).toBe(422)
+    expect(result.errors).toEqual({ checkOut: 'before_check_in' })
+  })
+
+  test('reports refine failures before running cross-field rules', async () => {
+    const result = await client.call('book-stay', { checkIn: '2026-05-03', checkOut: '2026-05-01', guests: 3 })
+    expect(result.errors).toEqual({ guests: 'not_even' })
+  })
+
+  test('passes valid input to the handler', async () => {
+    const result = await client.call('book-stay', { checkIn: '2026-05-01', checkOut: '2026-05-03', guests: 2 })
+    expect(result.status).toBe(200)
+    expect(result.data).toEqual({ nights: 2 })
+  })
+})
+
+describe('createTestClient typed calls', () => {
+  test('types input as the caller sends it', async () => {
+    // toDate fields take strings; a defaulted field may be left out
+    const booked = await client.call(bookStay, { checkIn: '2026-05-01', checkOut: '2026-05-03', guests: 2 })
+    expect(booked.data).toEqual({ nights: 2 })
+    const helloClient = createTestClient({ featuresDir: path.resolve(__dirname, '../../features') })
+    expect((await helloClient.call(helloWorld, {})).message).toBe('Hello, World!')
+
+    // @ts-expect-error required fields without a default must be sent
+    const missing = await client.call(bookStay, { checkIn: '2026-05-01', checkOut: '2026-05-03' })
+    expect(missing.errors).toEqual({ guests: 'required' })
+  })
+})
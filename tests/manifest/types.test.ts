@@ -78,3 +78,72 @@ describe('t.number()', () => {
     expect(field.min).toBe(0)
   })
 })
+
+describe('builder literal types', () => {
+  test('keeps required as given', () => {
+    const required: true = t.string({ description: 'Required.', required: true }).required
+    const optional: false = t.integer({ description: 'Optional.' }).required
+    expect(required).toBe(true)
+    expect(optional).toBe(false)
+  })
+})
+
+describe('t.object()', () => {
+  test('creates an object field definition', () => {
+    const field = t.object({
+      description: 'Address.',
+      fields: { city: t.string({ description: 'City.', required: true }) },
+    })
+    expect(field.type).toBe('object')
+    expect(field.required).toBe(false)
+    expect(field.fields.city.type).toBe('string')
+  })
+})
+
+describe('t.array() with items', () => {
+  test('derives itemType from the item schema', () => {
+    const field = t.array({
+      description: 'Scores.',
+      items: t.integer({ description: 'Score.', min: 0 }),
+    })
+    expect(field.itemType).toBe('integer')
+    expect(field.items.min).toBe(0)
+  })
+})
+
+describe('t.enum(), t.literal() and t.union()', () => {
+  test('creates an enum field definition', () => {
+    const field = t.enum({ description: 'Sort order.', values: ['asc', 'desc'] })
+    expect(field.type).toBe('enum')
+    expect(field.values).toEqual(['asc', 'desc'])
+  })
+
+  test('creates a literal field definition', () => {
+    const field = t.literal({ description: 'Kind.', value: 'card', required: true })
+    expect(field.type).toBe('literal')
+    expect(field.value).toBe('card')
+  })
+
+  test('creates a union field definition', () => {
+    const field = t.union({
+      description: 'Id or email.',
+      variants: [t.integer({ description: 'Id.' }), t.string({ description: 'Email.' })],
+    })
+    expect(field.type).toBe('union')
+    expect(field.variants).toHaveLength(2)
+    expect(field.discriminator).toBeUndefined()
+  })
+})
+
+describe('defaults and transforms', () => {
+  test('stores default and transform options', () => {
+    const field = t.string({ description: 'Email.', default: 'a@b.co', trim: true, lowercase: true })
+    expect(field.default).toBe('a@b.co')
+    expect(field.trim).toBe(true)
+    expect(field.lowercase).toBe(true)
+  })
+
+  test('omits default when not given', () => {
+    expect('default' in t.integer({ description: 'Limit.' })).toBe(false)
+  })
+})
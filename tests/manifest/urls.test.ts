@@ -0,0 +1,55 @@
+import { describe, test, expect } from 'bun:test'
+import { urlFor, createUrlFor } from '../../manifest/urls'
+import { defineFeature } from '../../manifest/feature'
+import { createTestClient } from '../../manifest/testing'
+import path from 'path'
+
+function routed(name: string, route?: ['GET', string]) {
+  return defineFeature({ name, description: 'Test.', route, input: {}, async handle({ ok }) { return ok('Done') } })
+}
+
+const registry = {
+  'get-user': routed('get-user', ['GET', '/api/users/:id']),
+  'get-post': routed('get-post', ['GET', '/api/posts/:id(\\d+)/:slug?']),
+  'get-file': routed('get-file', ['GET', '/files/*path']),
+  'list-users': routed('list-users', ['GET', '/api/users']),
+  'user-created': routed('user-created'),
+}
+
+describe('urlFor', () => {
+  test('fills and encodes path params', () => {
+    expect(urlFor(registry, 'get-user', { id: 42 })).toBe('/api/users/42')
+    expect(urlFor(registry, 'get-user', { id: 'a b/c' })).toBe('/api/users/a%20b%2Fc')
+  })
+
+  test('leaves out optional params and keeps catch-all slashes', () => {
+    expect(urlFor(registry, 'get-post', { id: 7 })).toBe('/api/posts/7')
+    expect(urlFor(registry, 'get-post', { id: 7, slug: 'hello' })).toBe('/api/posts/7/hello')
+    expect(urlFor(registry, 'get-file', { path: 'docs/read me.md' })).toBe('/files/docs/read%20me.md')
+  })
+
+  test('appends query values, repeating arrays and skipping empty ones', () => {
+    expect(urlFor(registry, 'list-users', {}, { tag: ['a', 'b'], page: 2, q: undefined, sort: null })).toBe('/api/users?tag=a&tag=b&page=2')
+  })
+
+  test('throws for missing, unknown and constraint-breaking params', () => {
+    expect(() => urlFor(registry, 'get-user')).toThrow("urlFor(): missing param 'id' for feature 'get-user' (GET /api/users/:id)")
+    expect(() => urlFor(registry, 'get-user', { id: 1, page: 2 })).toThrow("urlFor(): unknown param 'page'")
+    expect(() => urlFor(registry, 'get-post', { id: 'abc' })).toThrow("urlFor(): param 'id' for feature 'get-post' does not match \\d+: 'abc'")
+  })
+
+  test('throws for unknown and route-less features', () => {
+    expect(() => urlFor(registry, 'nope')).toThrow("urlFor(): unknown feature 'nope'")
+    expect(() => urlFor(registry, 'user-created')).toThrow("urlFor(): feature 'user-created' has no route")
+  })
+
+  test('createUrlFor binds a registry', () => {
+    expect(createUrlFor(registry)('get-user', { id: 1 })).toBe('/api/users/1')
+  })
+
+  test('is available to features on ctx.urlFor', async () => {
+    const client = createTestClient({ featuresDir: path.resolve(__dirname, 'fixtures') })
+    const result = await client.call('link-to-echo', { from: 'test' })
+    expect(result.data).toEqual({ url: '/api/test/echo?from=test' })
+  })
+})
@@ -1,5 +1,5 @@
 import { describe, test, expect } from 'bun:test'
-import { validateInput } from '../../manifest/validator'
+import { validateInput, validateOutput } from '../../manifest/validator'
 import { t } from '../../manifest/types'
 
 const schema = {
@@ -96,3 +96,222 @@ describe('validateInput', () => {
     expect(errors).toEqual({})
   })
 })
+
+describe('nested object fields', () => {
+  const nested = {
+    address: t.object({
+      description: 'Address.',
+      required: true,
+      fields: {
+        city: t.string({ description: 'City.', required: true }),
+        zip: t.string({ description: 'Zip.', pattern: '^\\d{5}$' }),
+      },
+    }),
+  }
+
+  test('reports nested errors under dotted paths', () => {
+    const errors = validateInput(nested, { address: { zip: 'abc' } })
+    expect(errors).toEqual({ 'address.city': 'required', 'address.zip': 'invalid_format' })
+  })
+
+  test('rejects non-object values', () => {
+    expect(validateInput(nested, { address: ['x'] })).toEqual({ address: 'invalid_type' })
+  })
+})
+
+describe('validateOutput', () => {
+  const output = { id: t.integer({ description: 'Id.', required: true }) }
+
+  test('passes matching data', () => {
+    expect(validateOutput(output, { id: 1, extra: true })).toEqual({})
+  })
+
+  test('reports mismatched fields', () => {
+    expect(validateOutput(output, { id: 'x' })).toEqual({ id: 'invalid_type' })
+  })
+
+  test('rejects non-object data', () => {
+    expect(validateOutput(output, null)).toEqual({ data: 'invalid_type' })
+  })
+})
+
+describe('array item validation', () => {
+  const lists = {
+    tags: t.array({ description: 'Tags.', itemType: 'string' }),
+    contacts: t.array({
+      description: 'Contacts.',
+      items: t.object({
+        description: 'Contact.',
+        fields: {
+          email: t.string({ description: 'Email.', required: true, format: 'email' }),
+          name: t.string({ description: 'Name.', maxLength: 5 }),
+        },
+      }),
+    }),
+    scores: t.array({ description: 'Scores.', items: t.integer({ description: 'Score.', min: 0 }), maxItems: 3 }),
+  }
+
+  test('checks scalar itemType on every item', () => {
+    expect(validateInput(lists, { tags: ['a', 2, 'c'] })).toEqual({ 'tags.1': 'invalid_type' })
+  })
+
+  test('reports object item errors under indexed paths', () => {
+    const errors = validateInput(lists, {
+      contacts: [
+        { email: 'a@example.com' },
+        { email: 'b@example.com', name: 'Too long' },
+        { email: 'not-an-email' },
+      ],
+    })
+    expect(errors).toEqual({ 'contacts.1.name': 'max_length', 'contacts.2.email': 'invalid_format' })
+  })
+
+  test('reports array-level and item errors together', () => {
+    const errors = validateInput(lists, { scores: [1, -1, 2, 3] })
+    expect(errors).toEqual({ scores: 'max_items', 'scores.1': 'min' })
+  })
+
+  test('reports null items as required', () => {
+    expect(validateInput(lists, { tags: ['a', null] })).toEqual({ 'tags.1': 'required' })
+  })
+
+  test('skips item checks for unknown itemTypes', () => {
+    const loose = { things: t.array({ description: 'Things.', itemType: 'anything' }) }
+    expect(validateInput(loose, { things: [1, 'a', {}] })).toEqual({})
+  })
+})
+
+describe('enum, literal and union fields', () => {
+  const choices = {
+    status: t.enum({ description: 'Status.', values: ['draft', 'published'] }),
+    version: t.literal({ description: 'API version.', value: 2 }),
+    payment: t.union({
+      description: 'Payment.',
+      discriminator: 'method',
+      variants: [
+        t.object({
+          description: 'Card payment.',
+          fields: {
+            method: t.literal({ description: 'Card.', value: 'card', required: true }),
+            last4: t.string({ description: 'Last four digits.', required: true, pattern: '^\\d{4}$' }),
+          },
+        }),
+        t.object({
+          description: 'Invoice payment.',
+          fields: {
+            method: t.literal({ description: 'Invoice.', value: 'invoice', required: true }),
+            poNumber: t.integer({ description: 'Purchase order.', required: true }),
+          },
+        }),
+      ],
+    }),
+    target: t.union({
+      description: 'User id or email.',
+      variants: [
+        t.integer({ description: 'User id.', min: 1 }),
+        t.string({ description: 'User email.', format: 'email' }),
+      ],
+    }),
+  }
+
+  test('accepts enum members and rejects others', () => {
+    expect(validateInput(choices, { status: 'draft' })).toEqual({})
+    expect(validateInput(choices, { status: 'archived' })).toEqual({ status: 'invalid_enum' })
+  })
+
+  test('checks literal values strictly', () => {
+    expect(validateInput(choices, { version: 2 })).toEqual({})
+    expect(validateInput(choices, { version: '2' })).toEqual({ version: 'invalid_literal' })
+  })
+
+  test('validates the variant picked by the discriminator', () => {
+    expect(validateInput(choices, { payment: { method: 'card', last4: '4242' } })).toEqual({})
+    expect(validateInput(choices, { payment: { method: 'invoice' } })).toEqual({ 'payment.poNumber': 'required' })
+  })
+
+  test('reports no_matching_variant for unknown discriminators', () => {
+    expect(validateInput(choices, { payment: { method: 'cash' } })).toEqual({ payment: 'no_matching_variant' })
+  })
+
+  test('tries each variant without a discriminator', () => {
+    expect(validateInput(choices, { target: 5 })).toEqual({})
+    expect(validateInput(choices, { target: 'a@example.com' })).toEqual({})
+    expect(validateInput(choices, { target: 'nobody' })).toEqual({ target: 'no_matching_variant' })
+  })
+})
+
+describe('unknown fields', () => {
+  const profile = {
+    name: t.string({ description: 'Name.' }),
+    address: t.object({ description: 'Address.', fields: { city: t.string({ description: 'City.' }) } }),
+  }
+
+  test('ignores unknown fields by default', () => {
+    expect(validateInput(profile, { name: 'A', isAdmin: true })).toEqual({})
+  })
+
+  test('reports each unknown field with reject', () => {
+    const errors = validateInput(profile, { name: 'A', isAdmin: true, role: 'x', address: { city: 'B', zip: 1 } }, { unknownFields: 'reject' })
+    expect(errors).toEqual({ isAdmin: 'unknown_field', role: 'unknown_field', 'address.zip': 'unknown_field' })
+  })
+
+  test('reports keys named like prototype members with reject', () => {
+    const data = JSON.parse('{"name":"A","constructor":"x","__proto__":{"isAdmin":true}}')
+    expect(validateInput(profile, data, { unknownFields: 'reject' })).toEqual({ constructor: 'unknown_field', ['__proto__']: 'unknown_field' })
+  })
+
+  test('accepts allowKeys with reject', () => {
+    expect(validateInput(profile, { id: '42' }, { unknownFields: 'reject', allowKeys: ['id'] })).toEqual({})
+  })
+})
+
+describe('refine and cross-field rules', () => {
+  const slug = t.string({
+    description: 'Slug.',
+    required: true,
+    minLength: 2,
+    refine: [
+      { description: 'Lowercase only.', code: 'not_lowercase', check: (v) => v === v.toLowerCase() },
+      { description: 'No double dashes.', check: (v) => !v.includes('--') },
+    ],
+  })
+
+  test('reports the first failing rule by code, defaulting to invalid', () => {
+    expect(validateInput({ slug }, { slug: 'Hello' })).toEqual({ slug: 'not_lowercase' })
+    expect(validateInput({ slug }, { slug: 'a--b' })).toEqual({ slug: 'invalid' })
+    expect(validateInput({ slug }, { slug: 'a-b' })).toEqual({})
+  })
+
+  test('skips rules when a built-in check already failed', () => {
+    expect(validateInput({ slug }, { slug: 'A' })).toEqual({ slug: 'min_length' })
+  })
+
+  test('runs rules on nested fields and array items', () => {
+    const schema = {
+      tags: t.array({ description: 'Tags.', items: slug }),
+      owner: t.object({ description: 'Owner.', fields: { slug } }),
+      ids: t.array({
+        description: 'IDs.',
+        itemType: 'integer',
+        refine: [{ description: 'No duplicates.', code: 'duplicates', check: (v) => new Set(v).size === v.length }],
+      }),
+    }
+    const errors = validateInput(schema, { tags: ['ok', 'Bad'], owner: { slug: 'X-y' }, ids: [1, 1] })
+    expect(errors).toEqual({ 'tags.1': 'not_lowercase', 'owner.slug': 'not_lowercase', ids: 'duplicates' })
+  })
+
+  test('merges cross-field rule errors once every field is valid', () => {
+    const schema = {
+      min: t.integer({ description: 'Min.', required: true }),
+      max: t.integer({ description: 'Max.', required: true }),
+    }
+    const rules = [
+      { description: 'max must be at least min.', check: (input: Record<string, unknown>) => ((input.max as number) < (input.min as number) ? { max: 'below_min' } : null) },
+      { description: 'Range is at most 100.', check: (input: Record<string, unknown>) => ((input.max as number) - (input.min as number) > 100 ? { max: 'range_too_large' } : undefined) },
+    ]
+    expect(validateInput(schema, { min: 5, max: 1 }, { rules })).toEqual({ max: 'below_min' })
+    expect(validateInput(schema, { min: 0, max: 500 }, { rules })).toEqual({ max: 'range_too_large' })
+    expect(validateInput(schema, { min: 'x', max: 1 }, { rules })).toEqual({ min: 'invalid_type' })
+    expect(validateInput(schema, { min: 1, max: 5 }, { rules })).toEqual({})
+  })
+})